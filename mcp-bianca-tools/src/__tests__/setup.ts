@@ -0,0 +1,8 @@
+/**
+ * Jest setup: headless browser, no log files and only errors on stderr.
+ * Set PUPPETEER_EXECUTABLE_PATH to run against a system Chrome.
+ */
+
+process.env.PUPPETEER_HEADLESS ??= 'true';
+process.env.LOG_FILE ??= 'false';
+process.env.LOG_LEVEL ??= 'ERROR';
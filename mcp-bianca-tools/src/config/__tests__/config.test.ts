@@ -0,0 +1,151 @@
+/**
+ * Layered configuration: defaults < YAML < profile < environment, and the
+ * ConfigError messages printed before the process exits. Each case loads a
+ * fresh copy of the module with its own environment.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+type ConfigModule = typeof import('../index');
+
+const YAML = `
+server: { name: do-yaml }
+transport: { type: http, port: 4000, allowedHosts: [a.internal, b.internal] }
+middleware: { default: [logging, errorHandling] }
+profile: staging
+profiles:
+  staging:
+    transport: { port: 5000 }
+  prod:
+    transport: { port: 443, allowedHosts: [prod.internal] }
+    logging: { level: WARN }
+`;
+
+const ENV_KEYS = ['BIANCA_CONFIG', 'BIANCA_PROFILE', 'MCP_HTTP_PORT', 'SERVER_NAME'];
+
+let dir: string;
+let saved: Record<string, string | undefined>;
+
+async function writeConfig(name: string, content: string): Promise<string> {
+  const file = path.join(dir, name);
+  await fs.writeFile(file, content);
+  return file;
+}
+
+function load(env: Record<string, string>): ConfigModule {
+  Object.assign(process.env, env);
+  let loaded: ConfigModule | undefined;
+  jest.isolateModules(() => {
+    loaded = require('../index');
+  });
+  return loaded!;
+}
+
+// loadConfig imprime o ConfigError e encerra o processo
+function loadError(env: Record<string, string>): string {
+  const exit = jest.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+  const print = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  try {
+    expect(() => load(env)).toThrow('exit');
+    expect(exit).toHaveBeenCalledWith(1);
+    return String(print.mock.calls[0]?.[0]);
+  } finally {
+    exit.mockRestore();
+    print.mockRestore();
+  }
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bianca-config-'));
+  saved = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  ENV_KEYS.forEach(key => delete process.env[key]);
+});
+
+afterEach(async () => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('layers', () => {
+  it('uses the defaults without a file', () => {
+    const { config, configSource } = load({});
+
+    expect(configSource).toEqual({});
+    expect(config.transport).toMatchObject({ type: 'stdio', port: 3333 });
+  });
+
+  it('applies the file profile over the YAML base', async () => {
+    const file = await writeConfig('bianca.yaml', YAML);
+    const { config, configSource } = load({ BIANCA_CONFIG: file });
+
+    expect(configSource).toEqual({ file, profile: 'staging' });
+    expect(config.server.name).toBe('do-yaml');
+    expect(config.transport).toMatchObject({ type: 'http', port: 5000, allowedHosts: ['a.internal', 'b.internal'] });
+  });
+
+  it('lets BIANCA_PROFILE pick the profile and replaces lists whole', async () => {
+    const file = await writeConfig('bianca.yaml', YAML);
+    const { config, configSource } = load({ BIANCA_CONFIG: file, BIANCA_PROFILE: 'prod' });
+
+    expect(configSource.profile).toBe('prod');
+    expect(config.transport.allowedHosts).toEqual(['prod.internal']);
+    expect(config.middleware.default).toEqual(['logging', 'errorHandling']);
+  });
+
+  it('puts the environment above the profile', async () => {
+    const file = await writeConfig('bianca.yaml', YAML);
+    const { config } = load({ BIANCA_CONFIG: file, MCP_HTTP_PORT: '6000', SERVER_NAME: 'do-env' });
+
+    expect(config.transport.port).toBe(6000);
+    expect(config.server.name).toBe('do-env');
+  });
+});
+
+describe('ConfigError', () => {
+  it('lists the available profiles for an unknown one', async () => {
+    const file = await writeConfig('bianca.yaml', YAML);
+
+    expect(loadError({ BIANCA_CONFIG: file, BIANCA_PROFILE: 'qa' })).toBe(
+      `[BiancaTools] ❌ Perfil "qa" não definido em ${file}\n  - perfis disponíveis: staging, prod`
+    );
+  });
+
+  it('reports a missing explicit file', () => {
+    const file = path.join(dir, 'ausente.yaml');
+
+    expect(loadError({ BIANCA_CONFIG: file })).toContain(`Arquivo de configuração não encontrado: ${file}`);
+  });
+
+  it('reports a profile requested without a file', () => {
+    expect(loadError({ BIANCA_PROFILE: 'prod' })).toContain('Perfil "prod" solicitado sem arquivo de configuração');
+  });
+
+  it('reports malformed YAML', async () => {
+    const file = await writeConfig('bianca.yaml', 'transport: [');
+
+    expect(loadError({ BIANCA_CONFIG: file })).toContain(`Não foi possível ler ${file}`);
+  });
+
+  it('reports each invalid value with its path and origin', async () => {
+    const file = await writeConfig('bianca.yaml', `
+transport: { port: 70000 }
+auth:
+  enabled: true
+  tokens:
+    - { id: painel, token: aaaaaaaaaaaaaaaaaaaa }
+    - { id: painel, token: bbbbbbbbbbbbbbbbbbbb }
+profiles:
+  staging: {}
+`);
+    const message = loadError({ BIANCA_CONFIG: file, BIANCA_PROFILE: 'staging' });
+
+    expect(message).toContain(`Configuração inválida (${file}, perfil staging)`);
+    expect(message).toContain('  - transport.port:');
+    expect(message).toContain('  - auth.tokens: ids de token repetidos em auth.tokens');
+  });
+});
@@ -3,11 +3,46 @@
  */
 
 import dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
 import { z } from 'zod';
 
 // Carregar variáveis de ambiente
 dotenv.config();
 
+/**
+ * Middlewares disponíveis para o pipeline de ferramentas
+ */
+export const MiddlewareNameSchema = z.enum([
+  'errorHandling',
+  'logging',
+  'metrics',
+  'rateLimit',
+  'validation',
+  'caching'
+]);
+
+export type MiddlewareName = z.infer<typeof MiddlewareNameSchema>;
+
+/**
+ * Categorias de ferramentas
+ */
+export const ToolCategorySchema = z.enum([
+  'puppeteer',
+  'ekyte',
+  'browser',
+  'agents',
+  'github',
+  'utility',
+  'plugin'
+]);
+
+const BucketLimitSchema = z.object({
+  capacity: z.number().positive(),
+  refillPerSecond: z.number().nonnegative()
+});
+
 /**
  * Schema de validação para configuração
  */
@@ -21,24 +56,165 @@ const ConfigSchema = z.object({
   
   // Puppeteer
   puppeteer: z.object({
-    headless: z.boolean().default(true),
-    defaultTimeout: z.number().default(30000),
-    cleanupInterval: z.number().default(300000), // 5 minutos
-    maxIdleTime: z.number().default(600000) // 10 minutos
+    headless: z.boolean().default(false),
+    defaultTimeout: z.number().default(30000), // Carregamento de página
+    cleanupInterval: z.number().default(60000), // Verificação de inatividade
+    maxIdleTime: z.number().default(1800000), // 30 minutos até fechar o browser
+    sessionIdleTime: z.number().default(600000), // 10 minutos até descartar o contexto de uma sessão
+    screenshotOnError: z.boolean().default(true), // Anexar tela da página às falhas
+    viewport: z.object({
+      width: z.number().int().positive().default(1280),
+      height: z.number().int().positive().default(720)
+    }).default({}),
+    executablePath: z.string().optional(), // Chrome do sistema em vez do baixado pelo Puppeteer
+    args: z.array(z.string()).default([
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-accelerated-2d-canvas',
+      '--no-first-run',
+      '--no-zygote',
+      '--disable-gpu'
+    ])
   }),
   
+  // Ferramentas
+  tools: z.object({
+    enabledCategories: z.array(ToolCategorySchema).optional(), // Ausente: todas as categorias
+    timeouts: z.record(z.number().positive()).default({}), // Tempo máximo por ferramenta em ms
+    validateOutput: z.boolean().default(false) // Modo dev: conferir structuredContent contra o outputSchema
+  }).default({}),
+  
+  // Site do Ekyte usado pelas ferramentas de automação
+  ekyte: z.object({
+    baseUrl: z.string().url().default('https://app.ekyte.com'),
+    loginPath: z.string().startsWith('/').default('/login'),
+    loginTimeout: z.number().default(15000) // Espera pelo redirecionamento após o login
+  }).default({}),
+  
   // Logging
   logging: z.object({
     level: z.enum(['DEBUG', 'INFO', 'WARN', 'ERROR', 'NONE']).default('INFO'),
     console: z.boolean().default(true),
-    file: z.boolean().default(false),
-    dir: z.string().default('./logs')
+    file: z.boolean().default(false), // JSON lines em dir/bianca-tools.jsonl
+    dir: z.string().default('./logs'),
+    maxFileSize: z.number().int().positive().default(10 * 1024 * 1024), // Rotaciona ao passar deste tamanho
+    maxFiles: z.number().int().positive().default(5) // Arquivos rotacionados mantidos
   }),
   
   // Cache
+  // Resultados de ferramentas read-only (metadata isReadOnly/cacheable)
   cache: z.object({
     enabled: z.boolean().default(true),
-    ttl: z.number().default(300000) // 5 minutos
+    ttl: z.number().default(300000), // 5 minutos
+    maxEntries: z.number().int().positive().default(500),
+    tools: z.record(z.number()).default({}) // TTL por ferramenta em ms; 0 desativa
+  }),
+  
+  // Transporte MCP
+  transport: z.object({
+    type: z.enum(['stdio', 'http']).default('stdio'),
+    host: z.string().default('127.0.0.1'),
+    port: z.number().int().min(0).max(65535).default(3333),
+    path: z.string().startsWith('/').default('/mcp'),
+    sseFallback: z.boolean().default(true), // Endpoints SSE legados (/sse + /messages)
+    ssePath: z.string().startsWith('/').default('/sse'),
+    messagesPath: z.string().startsWith('/').default('/messages'),
+    metricsPath: z.string().startsWith('/').or(z.literal('')).default('/metrics'), // '' desativa
+    // Proteção contra DNS rebinding: Origins e Hosts aceitos (vazio: apenas loopback)
+    allowedOrigins: z.array(z.string()).default([]),
+    allowedHosts: z.array(z.string()).default([]),
+    maxBodySize: z.number().int().positive().default(1048576), // Corpo máximo de uma requisição, em bytes
+    sessionIdleTime: z.number().int().nonnegative().default(1800000) // 30 minutos sem requisições até descartar a sessão; 0 desativa
+  }),
+  
+  // Autenticação por Bearer token no transporte HTTP (stdio é sempre local)
+  auth: z.object({
+    enabled: z.boolean().default(false),
+    tokens: z.array(z.object({
+      id: z.string().min(1), // Identidade gravada no audit log
+      token: z.string().min(16).optional(),
+      tokenEnv: z.string().optional(), // Variável de ambiente com o token, para não deixá-lo no YAML
+      allow: z.array(z.string()).default(['*']), // Ferramentas, categorias, 'resources', 'prompts' ou '*'
+      readOnly: z.boolean().default(false) // Só ferramentas com isReadOnly
+    }).refine(token => !!token.token !== !!token.tokenEnv, 'informe token ou tokenEnv (apenas um)')).default([])
+  }).default({}).refine(auth => !auth.enabled || auth.tokens.length > 0, {
+    message: 'auth.enabled exige ao menos um token',
+    path: ['tokens']
+  }).refine(auth => new Set(auth.tokens.map(token => token.id)).size === auth.tokens.length, {
+    message: 'ids de token repetidos em auth.tokens',
+    path: ['tokens']
+  }),
+  
+  // Pipeline de middlewares aplicado a cada chamada de ferramenta
+  // A cadeia usada é a primeira encontrada em: tools[nome] > categories[categoria] > default
+  middleware: z.object({
+    enabled: z.boolean().default(true),
+    default: z.array(MiddlewareNameSchema).default(['errorHandling', 'logging', 'metrics', 'rateLimit', 'validation', 'caching']),
+    categories: z.record(z.array(MiddlewareNameSchema)).default({
+      ekyte: ['errorHandling', 'logging', 'metrics', 'rateLimit', 'validation', 'caching']
+    }),
+    tools: z.record(z.array(MiddlewareNameSchema)).default({}),
+    // Token buckets: cada chamada consome um token de sessão, categoria e host
+    rateLimit: z.object({
+      session: BucketLimitSchema.nullable().default({ capacity: 60, refillPerSecond: 1 }),
+      categories: z.record(BucketLimitSchema).default({
+        ekyte: { capacity: 10, refillPerSecond: 10 / 60 }
+      }),
+      host: BucketLimitSchema.nullable().default({ capacity: 30, refillPerSecond: 0.5 }), // Padrão por hostname
+      hosts: z.record(BucketLimitSchema).default({}), // Limites específicos por hostname
+      queue: z.object({
+        enabled: z.boolean().default(false), // Aguardar um token em vez de rejeitar
+        maxWaitMs: z.number().default(30000)
+      }).default({})
+    }).default({})
+  }),
+  
+  // Recursos MCP
+  resources: z.object({
+    workspaceDir: z.string().default('../workspace'), // Bancos *-skills.json
+    logLimit: z.number().default(100) // Entradas servidas em log://recent
+  }),
+  
+  // Plugins de ferramentas de terceiros
+  plugins: z.object({
+    enabled: z.boolean().default(true),
+    dir: z.string().default('./plugins'), // Arquivos .js/.mjs ou pastas com package.json
+    packages: z.array(z.string()).default([]) // Pacotes npm que exportam um plugin
+  }),
+  
+  // Ferramentas compostas (macros) definidas em YAML/JSON
+  macros: z.object({
+    enabled: z.boolean().default(true),
+    dir: z.string().default('./macros') // Arquivos .yaml/.yml/.json no primeiro nível
+  }).default({}),
+  
+  // Audit log das chamadas de ferramentas (JSONL, somente append)
+  audit: z.object({
+    enabled: z.boolean().default(true),
+    file: z.string().default('./logs/audit.jsonl'),
+    redactKeys: z.array(z.string()).default(['password', 'senha', 'token', 'secret', 'apikey', 'api_key', 'authorization', 'cookie'])
+  }),
+  
+  // Histórico do registro de ferramentas (um snapshot por mudança, em JSONL)
+  toolHistory: z.object({
+    enabled: z.boolean().default(true),
+    file: z.string().default('./logs/tool-history.jsonl')
+  }).default({}),
+  
+  // Cofre de credenciais (perfis de login cifrados com AES-256-GCM)
+  credentials: z.object({
+    file: z.string().default('./credentials.enc.json'),
+    keyEnv: z.string().default('BIANCA_CREDENTIALS_KEY'), // Variável com a chave mestra
+    allowInline: z.boolean().default(true) // Aceitar email/password direto nas ferramentas
+  }).default({}),
+  
+  // Fixtures de rede para rodar as ferramentas Puppeteer offline
+  fixtures: z.object({
+    mode: z.enum(['off', 'record', 'replay']).default('off'),
+    dir: z.string().default('./fixtures'),
+    name: z.string().default('default'), // Conjunto de fixtures ativo
+    strict: z.boolean().default(true) // Em replay, abortar requisições não gravadas
   })
 });
 
@@ -47,50 +223,268 @@ const ConfigSchema = z.object({
  */
 export type Config = z.infer<typeof ConfigSchema>;
 
+// Arquivo de configuração procurado no diretório de trabalho
+const DEFAULT_CONFIG_FILE = 'bianca-tools.yaml';
+
+/**
+ * Erro de configuração com a lista de problemas encontrados
+ */
+export class ConfigError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Origem da configuração carregada
+ */
+export interface ConfigSource {
+  file?: string;    // Arquivo YAML usado, se houver
+  profile?: string; // Perfil aplicado sobre o arquivo
+}
+
+type ConfigLayer = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is ConfigLayer =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Mescla camadas de configuração; valores undefined não sobrescrevem e
+ * listas são substituídas por inteiro
+ */
+function mergeLayers(...layers: ConfigLayer[]): ConfigLayer {
+  const result: ConfigLayer = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+
+      const current = result[key];
+      result[key] = isPlainObject(value) && isPlainObject(current)
+        ? mergeLayers(current, value)
+        : isPlainObject(value) ? mergeLayers(value) : value;
+    }
+  }
+
+  return result;
+}
+
+// Leitura de variáveis de ambiente; ausentes ficam undefined para não sobrescrever o YAML
+const envString = (name: string) => process.env[name] || undefined;
+const envInt = (name: string) => process.env[name] ? parseInt(process.env[name]!) : undefined;
+const envBool = (name: string) => process.env[name] ? process.env[name] !== 'false' : undefined;
+const envList = (name: string) => process.env[name]
+  ? process.env[name]!.split(',').map(item => item.trim()).filter(Boolean)
+  : undefined;
+
 /**
- * Função para criar configuração a partir do ambiente
+ * Camada de configuração vinda das variáveis de ambiente
  */
-function createConfig(): Config {
-  const rawConfig = {
+function envLayer(): ConfigLayer {
+  return {
     server: {
-      name: process.env.SERVER_NAME,
-      version: process.env.SERVER_VERSION,
-      description: process.env.SERVER_DESCRIPTION
+      name: envString('SERVER_NAME'),
+      version: envString('SERVER_VERSION'),
+      description: envString('SERVER_DESCRIPTION')
     },
     puppeteer: {
-      headless: process.env.PUPPETEER_HEADLESS !== 'false',
-      defaultTimeout: process.env.PUPPETEER_TIMEOUT 
-        ? parseInt(process.env.PUPPETEER_TIMEOUT) 
-        : undefined,
-      cleanupInterval: process.env.PUPPETEER_CLEANUP_INTERVAL
-        ? parseInt(process.env.PUPPETEER_CLEANUP_INTERVAL)
-        : undefined,
-      maxIdleTime: process.env.PUPPETEER_MAX_IDLE_TIME
-        ? parseInt(process.env.PUPPETEER_MAX_IDLE_TIME)
-        : undefined
+      headless: envBool('PUPPETEER_HEADLESS'),
+      defaultTimeout: envInt('PUPPETEER_TIMEOUT'),
+      cleanupInterval: envInt('PUPPETEER_CLEANUP_INTERVAL'),
+      maxIdleTime: envInt('PUPPETEER_MAX_IDLE_TIME'),
+      sessionIdleTime: envInt('PUPPETEER_SESSION_IDLE_TIME'),
+      screenshotOnError: envBool('PUPPETEER_SCREENSHOT_ON_ERROR'),
+      executablePath: envString('PUPPETEER_EXECUTABLE_PATH')
+    },
+    tools: {
+      enabledCategories: envList('TOOLS_ENABLED_CATEGORIES'),
+      validateOutput: envBool('TOOLS_VALIDATE_OUTPUT')
+    },
+    ekyte: {
+      baseUrl: envString('EKYTE_BASE_URL')
     },
     logging: {
-      level: process.env.LOG_LEVEL as any,
-      console: process.env.LOG_CONSOLE !== 'false',
-      file: process.env.LOG_FILE === 'true',
-      dir: process.env.LOG_DIR
+      level: envString('LOG_LEVEL'),
+      console: envBool('LOG_CONSOLE'),
+      file: envBool('LOG_FILE'),
+      dir: envString('LOG_DIR'),
+      maxFileSize: envInt('LOG_MAX_FILE_SIZE'),
+      maxFiles: envInt('LOG_MAX_FILES')
     },
     cache: {
-      enabled: process.env.CACHE_ENABLED !== 'false',
-      ttl: process.env.CACHE_TTL 
-        ? parseInt(process.env.CACHE_TTL)
-        : undefined
+      enabled: envBool('CACHE_ENABLED'),
+      ttl: envInt('CACHE_TTL'),
+      maxEntries: envInt('CACHE_MAX_ENTRIES')
+    },
+    transport: {
+      type: envString('MCP_TRANSPORT'),
+      host: envString('MCP_HTTP_HOST'),
+      port: envInt('MCP_HTTP_PORT'),
+      path: envString('MCP_HTTP_PATH'),
+      sseFallback: envBool('MCP_HTTP_SSE'),
+      ssePath: envString('MCP_HTTP_SSE_PATH'),
+      messagesPath: envString('MCP_HTTP_MESSAGES_PATH'),
+      metricsPath: process.env.MCP_HTTP_METRICS_PATH, // '' desativa o endpoint
+      allowedOrigins: envList('MCP_HTTP_ALLOWED_ORIGINS'),
+      allowedHosts: envList('MCP_HTTP_ALLOWED_HOSTS'),
+      maxBodySize: envInt('MCP_HTTP_MAX_BODY_SIZE'),
+      sessionIdleTime: envInt('MCP_HTTP_SESSION_IDLE_TIME')
+    },
+    auth: {
+      enabled: envBool('MCP_AUTH_ENABLED')
+    },
+    middleware: {
+      enabled: envBool('MIDDLEWARE_ENABLED'),
+      default: envList('MIDDLEWARE_DEFAULT'),
+      rateLimit: {
+        queue: {
+          enabled: envBool('RATE_LIMIT_QUEUE')
+        }
+      }
+    },
+    resources: {
+      workspaceDir: envString('WORKSPACE_DIR'),
+      logLimit: envInt('RESOURCES_LOG_LIMIT')
     },
+    plugins: {
+      enabled: envBool('PLUGINS_ENABLED'),
+      dir: envString('PLUGINS_DIR'),
+      packages: envList('PLUGINS_PACKAGES')
+    },
+    macros: {
+      enabled: envBool('MACROS_ENABLED'),
+      dir: envString('MACROS_DIR')
+    },
+    audit: {
+      enabled: envBool('AUDIT_ENABLED'),
+      file: envString('AUDIT_FILE')
+    },
+    toolHistory: {
+      enabled: envBool('TOOL_HISTORY_ENABLED'),
+      file: envString('TOOL_HISTORY_FILE')
+    },
+    credentials: {
+      file: envString('CREDENTIALS_FILE'),
+      allowInline: envBool('CREDENTIALS_ALLOW_INLINE')
+    },
+    fixtures: {
+      mode: envString('FIXTURES_MODE'),
+      dir: envString('FIXTURES_DIR'),
+      name: envString('FIXTURES_NAME'),
+      strict: envBool('FIXTURES_STRICT')
+    }
   };
-  
+}
+
+/**
+ * Lê o arquivo YAML e separa a configuração base dos perfis
+ */
+function readConfigFile(file: string): { base: ConfigLayer; profiles: Record<string, ConfigLayer>; profile?: string } {
+  let document: unknown;
+  try {
+    document = yaml.load(readFileSync(file, 'utf-8')) ?? {};
+  } catch (error) {
+    const reason = error instanceof yaml.YAMLException ? error.message : String(error);
+    throw new ConfigError(`Não foi possível ler ${file}`, [reason]);
+  }
+
+  if (!isPlainObject(document)) {
+    throw new ConfigError(`Configuração inválida em ${file}`, ['o documento deve ser um objeto YAML']);
+  }
+
+  const { profile, profiles = {}, ...base } = document;
+  if (profile !== undefined && typeof profile !== 'string') {
+    throw new ConfigError(`Configuração inválida em ${file}`, ['profile: deve ser o nome de um perfil']);
+  }
+  if (!isPlainObject(profiles) || !Object.values(profiles).every(isPlainObject)) {
+    throw new ConfigError(`Configuração inválida em ${file}`, ['profiles: cada perfil deve ser um objeto']);
+  }
+
+  return { base, profiles: profiles as Record<string, ConfigLayer>, ...(profile ? { profile } : {}) };
+}
+
+/**
+ * Formata os problemas de validação como "caminho: mensagem"
+ */
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const where = issue.path.length > 0 ? issue.path.join('.') : '(raiz)';
+    return `${where}: ${issue.message}`;
+  });
+}
+
+/**
+ * Cria a configuração em camadas: defaults < YAML < perfil < ambiente
+ */
+function createConfig(): { config: Config; source: ConfigSource } {
+  const explicitFile = process.env.BIANCA_CONFIG;
+  const file = path.resolve(explicitFile || DEFAULT_CONFIG_FILE);
+  const source: ConfigSource = {};
+  const layers: ConfigLayer[] = [];
+
+  if (existsSync(file)) {
+    const { base, profiles, profile: fileProfile } = readConfigFile(file);
+    const profile = process.env.BIANCA_PROFILE || fileProfile;
+    source.file = file;
+    layers.push(base);
+
+    if (profile) {
+      if (!profiles[profile]) {
+        const available = Object.keys(profiles);
+        throw new ConfigError(`Perfil "${profile}" não definido em ${file}`, [
+          available.length > 0 ? `perfis disponíveis: ${available.join(', ')}` : 'o arquivo não define perfis'
+        ]);
+      }
+      source.profile = profile;
+      layers.push(profiles[profile]);
+    }
+  } else if (explicitFile) {
+    throw new ConfigError(`Arquivo de configuração não encontrado: ${file}`, ['verifique BIANCA_CONFIG']);
+  } else if (process.env.BIANCA_PROFILE) {
+    throw new ConfigError(`Perfil "${process.env.BIANCA_PROFILE}" solicitado sem arquivo de configuração`, [
+      `crie ${DEFAULT_CONFIG_FILE} ou aponte BIANCA_CONFIG para o arquivo`
+    ]);
+  }
+
+  layers.push(envLayer());
+
   // Validar e aplicar defaults
-  return ConfigSchema.parse(rawConfig);
+  const parsed = ConfigSchema.safeParse(mergeLayers(...layers));
+  if (!parsed.success) {
+    const origin = [source.file, source.profile && `perfil ${source.profile}`].filter(Boolean).join(', ');
+    throw new ConfigError(`Configuração inválida${origin ? ` (${origin})` : ''}`, formatIssues(parsed.error));
+  }
+
+  return { config: parsed.data, source };
 }
 
+/**
+ * Carrega a configuração ou encerra o processo com uma mensagem legível
+ */
+function loadConfig(): { config: Config; source: ConfigSource } {
+  try {
+    return createConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`[BiancaTools] ❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+const loaded = loadConfig();
+
 /**
  * Configuração global
  */
-export const config = createConfig();
+export const config = loaded.config;
+
+/**
+ * Arquivo e perfil de onde a configuração veio
+ */
+export const configSource = loaded.source;
 
 /**
  * Validar configurações obrigatórias
@@ -115,4 +509,16 @@ export function getConfig<K extends keyof Config>(key: K): Config[K] {
 export const serverConfig = config.server;
 export const puppeteerConfig = config.puppeteer;
 export const loggingConfig = config.logging;
+export const toolsConfig = config.tools;
+export const ekyteConfig = config.ekyte;
 export const cacheConfig = config.cache;
+export const transportConfig = config.transport;
+export const authConfig = config.auth;
+export const resourcesConfig = config.resources;
+export const middlewareConfig = config.middleware;
+export const pluginsConfig = config.plugins;
+export const macrosConfig = config.macros;
+export const auditConfig = config.audit;
+export const fixturesConfig = config.fixtures;
+export const credentialsConfig = config.credentials;
+export const toolHistoryConfig = config.toolHistory;
@@ -0,0 +1,127 @@
+/**
+ * Bearer tokens: header parsing, allowlists of tools, categories and
+ * capabilities, read-only tokens and session visibility.
+ */
+
+import { z } from 'zod';
+import { ToolFactory } from '../factory';
+import { ErrorCode } from '../types';
+import {
+  authenticate,
+  getUsableTokenCount,
+  isToolAllowed,
+  authorizeTool,
+  isCapabilityAllowed,
+  authorizeCapability,
+  hasFullAccess,
+  isVisibleTo
+} from '../auth';
+
+const ADMIN = 'admin-token-0123456789';
+const PANEL = 'panel-token-0123456789';
+const BROWSER = 'browser-token-0123456789';
+
+// Os tokens são lidos da config quando o módulo carrega
+jest.mock('../../config', () => {
+  process.env.TEST_BROWSER_TOKEN = 'browser-token-0123456789';
+  delete process.env.TEST_MISSING_TOKEN;
+
+  const actual = jest.requireActual('../../config');
+  return {
+    ...actual,
+    authConfig: {
+      enabled: true,
+      tokens: [
+        { id: 'admin', token: 'admin-token-0123456789', allow: ['*'], readOnly: false },
+        { id: 'painel', token: 'panel-token-0123456789', allow: ['utility', 'prompts'], readOnly: true },
+        { id: 'browser', tokenEnv: 'TEST_BROWSER_TOKEN', allow: ['puppeteer', 'test_reader', 'resources'], readOnly: false },
+        { id: 'missing', tokenEnv: 'TEST_MISSING_TOKEN', allow: ['*'], readOnly: false }
+      ]
+    }
+  };
+});
+
+beforeAll(() => {
+  const schema = z.object({});
+  const handler = async () => ({});
+  ToolFactory.register({ name: 'test_reader', description: 'Lê', schema, handler, metadata: { category: 'utility', isReadOnly: true } });
+  ToolFactory.register({ name: 'test_writer', description: 'Escreve', schema, handler, metadata: { category: 'utility', isReadOnly: false } });
+  ToolFactory.register({ name: 'test_browser', description: 'Navega', schema, handler, metadata: { category: 'puppeteer', isReadOnly: false } });
+});
+
+describe('authenticate', () => {
+  it('accepts configured tokens, inline or from the environment', () => {
+    expect(authenticate(`Bearer ${ADMIN}`)).toMatchObject({ clientId: 'admin', scopes: ['*'] });
+    expect(authenticate(`bearer ${BROWSER}`)).toMatchObject({ clientId: 'browser' });
+    expect(authenticate(`Bearer ${PANEL}`)).toMatchObject({ clientId: 'painel', extra: { readOnly: true } });
+  });
+
+  it('rejects unknown tokens and malformed headers', () => {
+    expect(authenticate('Bearer not-a-configured-token')).toBeNull();
+    expect(authenticate(ADMIN)).toBeNull();
+    expect(authenticate(`Basic ${ADMIN}`)).toBeNull();
+    expect(authenticate(undefined)).toBeNull();
+  });
+
+  it('leaves out tokens whose environment variable is unset', () => {
+    expect(getUsableTokenCount()).toBe(3);
+  });
+});
+
+describe('tools', () => {
+  it.each([
+    ['admin', 'test_writer', true],
+    ['painel', 'test_reader', true],
+    ['painel', 'test_writer', false],
+    ['painel', 'test_browser', false],
+    ['browser', 'test_browser', true],
+    ['browser', 'test_reader', true],
+    ['browser', 'test_writer', false],
+    [undefined, 'test_writer', true]
+  ])('token %s calling %s: %s', (token, tool, allowed) => {
+    expect(isToolAllowed(token, tool)).toBe(allowed);
+  });
+
+  it('explains denials with FORBIDDEN', () => {
+    expect(() => authorizeTool('browser', 'test_writer')).toThrow(
+      expect.objectContaining({ code: ErrorCode.FORBIDDEN, message: 'Token browser não tem acesso à ferramenta test_writer' })
+    );
+    expect(() => authorizeTool('painel', 'test_writer')).toThrow(
+      expect.objectContaining({ code: ErrorCode.FORBIDDEN, message: 'Token painel é somente leitura e test_writer não é read-only' })
+    );
+    expect(() => authorizeTool('painel', 'test_reader')).not.toThrow();
+  });
+});
+
+describe('capabilities', () => {
+  it('serves resources and prompts only to tokens that list them', () => {
+    expect(isCapabilityAllowed('browser', 'resources')).toBe(true);
+    expect(isCapabilityAllowed('browser', 'prompts')).toBe(false);
+    expect(isCapabilityAllowed('painel', 'prompts')).toBe(true);
+    expect(isCapabilityAllowed('admin', 'resources')).toBe(true);
+    expect(() => authorizeCapability('painel', 'resources')).toThrow(
+      expect.objectContaining({ code: ErrorCode.FORBIDDEN, message: 'Token painel não tem acesso a resources' })
+    );
+  });
+
+  it('gives full access to admin tokens and requests without a token', () => {
+    expect(hasFullAccess('admin')).toBe(true);
+    expect(hasFullAccess(undefined)).toBe(true);
+    expect(hasFullAccess('browser')).toBe(false);
+  });
+});
+
+describe('isVisibleTo', () => {
+  const scope = { sessionId: 's1', tokenId: 'browser' };
+
+  it('shows session output only to the same session and token', () => {
+    expect(isVisibleTo({ session: 's1', token: 'browser' }, scope)).toBe(true);
+    expect(isVisibleTo({ session: 's2', token: 'browser' }, scope)).toBe(false);
+    expect(isVisibleTo({ session: 's1', token: 'admin' }, scope)).toBe(false);
+  });
+
+  it('shows process output only to full-access requests', () => {
+    expect(isVisibleTo({}, scope)).toBe(false);
+    expect(isVisibleTo({}, { sessionId: 's1', tokenId: 'admin' })).toBe(true);
+  });
+});
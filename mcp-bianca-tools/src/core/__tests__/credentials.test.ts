@@ -0,0 +1,115 @@
+/**
+ * Credential vault: AES-GCM round-trips through a temporary file, wrong or
+ * missing master keys, tampering and inline credentials.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  addCredentialProfile,
+  listCredentialProfiles,
+  removeCredentialProfile,
+  resolveCredentials
+} from '../credentials';
+import { credentialsConfig } from '../../config';
+import { ErrorCode } from '../types';
+
+const KEY_ENV = 'TEST_CREDENTIALS_KEY';
+const credentials = { email: 'qa@bianca.test', password: 'segredo-do-cofre' };
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bianca-credentials-'));
+  credentialsConfig.file = path.join(dir, 'credentials.enc.json');
+  credentialsConfig.keyEnv = KEY_ENV;
+  credentialsConfig.allowInline = true;
+  process.env[KEY_ENV] = 'chave-mestra-de-teste';
+});
+
+afterEach(async () => {
+  delete process.env[KEY_ENV];
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('profiles', () => {
+  it('round-trips through the encrypted file', async () => {
+    await addCredentialProfile('ekyte', credentials);
+
+    const raw = await fs.readFile(credentialsConfig.file, 'utf-8');
+    expect(raw).not.toContain(credentials.email);
+    expect(raw).not.toContain(credentials.password);
+    expect(JSON.parse(raw)).toMatchObject({ version: 1 });
+
+    await expect(resolveCredentials({ profile: 'ekyte' })).resolves.toEqual(credentials);
+    const profiles = await listCredentialProfiles();
+    expect(profiles).toEqual([expect.objectContaining({ profile: 'ekyte', email: credentials.email })]);
+    expect(profiles[0]).not.toHaveProperty('password');
+  });
+
+  it('replaces a profile only with overwrite', async () => {
+    const first = await addCredentialProfile('ekyte', credentials);
+
+    await expect(addCredentialProfile('ekyte', credentials)).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+    const second = await addCredentialProfile('ekyte', { ...credentials, password: 'nova' }, true);
+    expect(second.createdAt).toBe(first.createdAt);
+    await expect(resolveCredentials({ profile: 'ekyte' })).resolves.toMatchObject({ password: 'nova' });
+  });
+
+  it('removes profiles', async () => {
+    await addCredentialProfile('ekyte', credentials);
+
+    await expect(removeCredentialProfile('ekyte')).resolves.toMatchObject({ profile: 'ekyte' });
+    await expect(listCredentialProfiles()).resolves.toEqual([]);
+    await expect(removeCredentialProfile('ekyte')).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+    await expect(resolveCredentials({ profile: 'ekyte' })).rejects.toMatchObject({ code: ErrorCode.NOT_FOUND });
+  });
+});
+
+describe('master key', () => {
+  it('rejects a wrong key', async () => {
+    await addCredentialProfile('ekyte', credentials);
+    process.env[KEY_ENV] = 'outra-chave';
+
+    await expect(listCredentialProfiles()).rejects.toMatchObject({
+      code: ErrorCode.AUTHENTICATION_ERROR,
+      message: expect.stringContaining('chave mestra incorreta ou arquivo corrompido')
+    });
+  });
+
+  it('rejects a tampered file', async () => {
+    await addCredentialProfile('ekyte', credentials);
+    const file = JSON.parse(await fs.readFile(credentialsConfig.file, 'utf-8'));
+    const data = Buffer.from(file.data, 'base64');
+    data[0] = data[0]! ^ 0xff;
+    await fs.writeFile(credentialsConfig.file, JSON.stringify({ ...file, data: data.toString('base64') }));
+
+    await expect(resolveCredentials({ profile: 'ekyte' })).rejects.toMatchObject({ code: ErrorCode.AUTHENTICATION_ERROR });
+  });
+
+  it('is required even while the vault is empty', async () => {
+    delete process.env[KEY_ENV];
+
+    await expect(listCredentialProfiles()).rejects.toMatchObject({
+      code: ErrorCode.AUTHENTICATION_ERROR,
+      message: expect.stringContaining(`defina ${KEY_ENV}`)
+    });
+  });
+});
+
+describe('resolveCredentials', () => {
+  it('accepts inline credentials unless disabled', async () => {
+    await expect(resolveCredentials(credentials)).resolves.toEqual(credentials);
+
+    credentialsConfig.allowInline = false;
+    await expect(resolveCredentials(credentials)).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+  });
+
+  it('requires a profile or both email and password', async () => {
+    await expect(resolveCredentials({ email: credentials.email })).rejects.toMatchObject({
+      code: ErrorCode.INVALID_PARAMS,
+      message: 'Informe profile (ou email e password)'
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Macro loading and execution: placeholders, `if` conditions and the checks
+ * that reject a broken macro (unknown references, bad operands, cycles).
+ * Steps call test_echo, which returns its arguments as data.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { ToolFactory } from '../factory';
+import { loadMacros, MacroLoadReport } from '../macros';
+import { macrosConfig } from '../../config';
+import { successResponse } from '../../utils';
+
+const MACROS: Record<string, string> = {
+  'greet.yaml': `
+name: test_greet
+description: Cumprimenta e repete o cumprimento
+input:
+  name: { type: string }
+  count: { type: number }
+  nickname: { type: string, required: false }
+steps:
+  - id: first
+    tool: test_echo
+    args: { greeting: 'Olá \${input.name}', count: '\${input.count}', nickname: '\${input.nickname}' }
+  - tool: test_echo
+    args: { previous: '\${steps.first.result}', text: 'antes: \${steps.0.result.greeting}' }
+result: '\${steps.1.result}'
+`,
+  'branches.yaml': `
+name: test_branches
+description: Passos condicionais
+input:
+  flag: { type: boolean }
+  mode: { type: string, enum: [full, short] }
+steps:
+  - { id: when_flag, tool: test_echo, args: { step: flag }, if: input.flag }
+  - { id: unless_flag, tool: test_echo, args: { step: no_flag }, if: '!input.flag' }
+  - { id: full, tool: test_echo, args: { step: full }, if: "input.mode == 'full'" }
+  - { id: not_short, tool: test_echo, args: { step: not_short }, if: '\${input.mode} != "short"' }
+`,
+  'failing.yaml': `
+name: test_failing
+description: O segundo passo falha
+steps:
+  - { tool: test_echo, args: {} }
+  - { id: boom, tool: test_fail, args: {} }
+`,
+  'broken.yaml': `
+macros:
+  - name: test_undeclared
+    description: Usa entrada não declarada
+    steps:
+      - { tool: test_echo, args: { value: '\${input.missing}' } }
+  - name: test_forward
+    description: Referencia um passo posterior
+    steps:
+      - { tool: test_echo, args: { value: '\${steps.later.result}' } }
+      - { id: later, tool: test_echo, args: {} }
+  - name: test_bad_operand
+    description: Condição com operando inválido
+    steps:
+      - { tool: test_echo, args: {}, if: 'input.x == foo bar' }
+  - name: test_unknown_tool
+    description: Chama ferramenta inexistente
+    steps:
+      - { tool: no_such_tool, args: {} }
+`,
+  'cycle.yaml': `
+macros:
+  - { name: test_loop_a, description: Chama b, steps: [{ tool: test_loop_b }] }
+  - { name: test_loop_b, description: Chama a, steps: [{ tool: test_loop_a }] }
+`
+};
+
+let dir: string;
+let report: MacroLoadReport;
+
+function failureOf(name: string): string | undefined {
+  return report.failed.find(failure => failure.source.endsWith(`#${name}`))?.error;
+}
+
+async function run(name: string, args: Record<string, unknown>) {
+  const result = await ToolFactory.get(name)!.handler(args);
+  return result.data;
+}
+
+beforeAll(async () => {
+  ToolFactory.register({
+    name: 'test_echo',
+    description: 'Devolve os argumentos',
+    schema: z.object({}).passthrough(),
+    handler: async (args) => successResponse(args)
+  });
+  ToolFactory.register({
+    name: 'test_fail',
+    description: 'Sempre falha',
+    schema: z.object({}),
+    handler: async () => { throw new Error('falha proposital'); }
+  });
+
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bianca-macros-'));
+  for (const [file, content] of Object.entries(MACROS)) {
+    await fs.writeFile(path.join(dir, file), content);
+  }
+  macrosConfig.dir = dir;
+  report = await loadMacros();
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('placeholders', () => {
+  it('keeps the original value of whole placeholders and interpolates the rest', async () => {
+    const data = await run('test_greet', { name: 'Bianca', count: 3 });
+
+    expect(data.result).toEqual({
+      previous: { greeting: 'Olá Bianca', count: 3 },
+      text: 'antes: Olá Bianca'
+    });
+    expect(data.steps).toEqual([
+      { id: 'first', tool: 'test_echo', status: 'success' },
+      { id: '1', tool: 'test_echo', status: 'success' }
+    ]);
+  });
+
+  it('validates the declared inputs', async () => {
+    await expect(run('test_greet', { name: 'Bianca' })).rejects.toThrow();
+  });
+});
+
+describe('conditions', () => {
+  it.each([
+    [true, 'full', ['when_flag', 'full', 'not_short']],
+    [false, 'short', ['unless_flag']]
+  ])('flag=%s mode=%s runs %j', async (flag, mode, expected) => {
+    const data = await run('test_branches', { flag, mode });
+    const executed = data.steps.filter((step: any) => step.status === 'success').map((step: any) => step.id);
+    expect(executed).toEqual(expected);
+  });
+});
+
+describe('failures', () => {
+  it('names the failing step', async () => {
+    await expect(run('test_failing', {})).rejects.toMatchObject({
+      message: expect.stringContaining('Passo boom (test_fail) da macro test_failing falhou'),
+      details: expect.objectContaining({ macro: 'test_failing', step: 'boom' })
+    });
+  });
+});
+
+describe('loadMacros', () => {
+  it('registers the valid macros', () => {
+    expect(report.loaded.map(macro => macro.name).sort()).toEqual(['test_branches', 'test_failing', 'test_greet']);
+  });
+
+  it('rejects references to undeclared inputs and later steps', () => {
+    expect(failureOf('test_undeclared')).toContain('entrada "missing" não declarada em input');
+    expect(failureOf('test_forward')).toContain('o passo "later" não existe antes deste ponto');
+  });
+
+  it('rejects invalid condition operands', () => {
+    expect(failureOf('test_bad_operand')).toContain('Operando inválido na condição: foo bar');
+  });
+
+  it('rejects calls to unknown tools', () => {
+    expect(failureOf('test_unknown_tool')).toContain('ferramenta desconhecida no_such_tool');
+  });
+
+  it('reports cycles between macros', () => {
+    expect(failureOf('test_loop_a')).toContain('ciclo: test_loop_a → test_loop_b → test_loop_a');
+    expect(ToolFactory.get('test_loop_a')).toBeUndefined();
+  });
+});
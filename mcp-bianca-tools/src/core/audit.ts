@@ -0,0 +1,148 @@
+/**
+ * Tool-call audit log for BiancaTools
+ *
+ * Every tools/call handled by the server is appended as one JSON line to
+ * config.audit.file, with secrets redacted. src/replay.ts reads this file back
+ * to re-execute a recorded session.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { auditConfig } from '../config/index.js';
+import { ErrorCode } from './types.js';
+
+export const REDACTED = '[REDACTED]';
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId: string;
+  requestId: string | number;
+  token?: string; // Id do Bearer token da requisição (HTTP com auth)
+  tool: string;
+  args: Record<string, any>;
+  durationMs: number;
+  outcome: 'success' | 'error';
+  error?: { code: ErrorCode | string; message: string };
+  artifacts: string[];
+}
+
+// ==================== Redaction ====================
+
+const redactPattern = new RegExp(auditConfig.redactKeys.join('|'), 'i');
+
+/**
+ * Whether a key (argument name, header name...) holds a secret
+ */
+export function isSensitiveKey(key: string): boolean {
+  return redactPattern.test(key);
+}
+
+/**
+ * Copy of a value with every secret-looking key replaced
+ */
+export function redact(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, isSensitiveKey(key) ? REDACTED : redact(item)])
+    );
+  }
+  return value;
+}
+
+// ==================== Artifacts ====================
+
+const ARTIFACT_PATTERN = /\.(png|jpe?g|webp|pdf|html?)$/i;
+
+/**
+ * File paths written by a tool call, taken from its arguments and result data
+ */
+export function collectArtifacts(...sources: any[]): string[] {
+  const found = new Set<string>();
+
+  const walk = (value: any, depth: number) => {
+    if (depth > 5 || value === null || value === undefined) return;
+    if (typeof value === 'string') {
+      if (ARTIFACT_PATTERN.test(value) && !/^[a-z]+:\/\//i.test(value)) found.add(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(item => walk(item, depth + 1));
+    } else if (typeof value === 'object') {
+      Object.values(value).forEach(item => walk(item, depth + 1));
+    }
+  };
+
+  sources.forEach(source => walk(source, 0));
+  return Array.from(found);
+}
+
+// ==================== Writer ====================
+
+// Escritas encadeadas para manter a ordem das linhas
+let writeQueue: Promise<void> = Promise.resolve();
+let directoryReady = false;
+
+/**
+ * Append one entry to the audit log; failures are reported but never break the tool call
+ */
+export function recordToolCall(entry: Omit<AuditEntry, 'timestamp' | 'args'> & { args: any }): Promise<void> {
+  if (!auditConfig.enabled) {
+    return Promise.resolve();
+  }
+
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    ...entry,
+    args: redact(entry.args ?? {})
+  }) + '\n';
+
+  writeQueue = writeQueue
+    .then(async () => {
+      const file = path.resolve(auditConfig.file);
+      if (!directoryReady) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        directoryReady = true;
+      }
+      await fs.appendFile(file, line, 'utf-8');
+    })
+    .catch(error => {
+      console.error('[audit] Falha ao gravar audit log:', error instanceof Error ? error.message : error);
+    });
+
+  return writeQueue;
+}
+
+/**
+ * Record a call that the token allowlist refused before it ran
+ */
+export function recordDeniedCall(
+  call: Pick<AuditEntry, 'sessionId' | 'requestId' | 'token' | 'tool'> & { args: any },
+  error: { code: ErrorCode | string; message: string }
+): Promise<void> {
+  return recordToolCall({
+    ...call,
+    durationMs: 0,
+    outcome: 'error',
+    error: { code: error.code, message: error.message },
+    artifacts: []
+  });
+}
+
+/**
+ * Read an audit log back, skipping malformed lines
+ */
+export async function readAuditLog(file: string = auditConfig.file): Promise<AuditEntry[]> {
+  const content = await fs.readFile(path.resolve(file), 'utf-8');
+
+  return content
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        return [];
+      }
+    });
+}
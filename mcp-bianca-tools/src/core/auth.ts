@@ -0,0 +1,165 @@
+/**
+ * Bearer-token authentication for the BiancaTools HTTP transport
+ *
+ * Tokens come from config.auth.tokens, either inline or from an environment
+ * variable. Each one has an id (recorded in the audit log), an allowlist of
+ * tool names or categories and an optional read-only flag that limits it to
+ * tools whose metadata has isReadOnly. Resources and prompts are only served
+ * to tokens whose allowlist has '*' or the entries 'resources' / 'prompts'.
+ * The stdio transport is local and is never authenticated.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ToolFactory } from './factory.js';
+import { MCPError, ErrorCode } from './types.js';
+import type { SessionScope } from './context.js';
+import { authConfig } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export type AuthCapability = 'resources' | 'prompts';
+
+export interface AuthToken {
+  id: string;
+  allow: string[];
+  readOnly: boolean;
+}
+
+interface ResolvedToken extends AuthToken {
+  hash: Buffer;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+/**
+ * Tokens from the config; those whose environment variable is unset are left out
+ */
+function resolveTokens(): ResolvedToken[] {
+  const resolved: ResolvedToken[] = [];
+
+  for (const token of authConfig.tokens) {
+    const value = token.token ?? process.env[token.tokenEnv!];
+    if (!value) {
+      logger.warn(`Token ${token.id} ignorado: variável ${token.tokenEnv} não definida`);
+      continue;
+    }
+    resolved.push({ id: token.id, allow: token.allow, readOnly: token.readOnly, hash: hashToken(value) });
+  }
+
+  return resolved;
+}
+
+const tokens = authConfig.enabled ? resolveTokens() : [];
+
+// ==================== Authentication ====================
+
+/**
+ * Whether HTTP requests must carry a bearer token
+ */
+export function isAuthEnabled(): boolean {
+  return authConfig.enabled;
+}
+
+/**
+ * Number of tokens that can actually authenticate
+ */
+export function getUsableTokenCount(): number {
+  return tokens.length;
+}
+
+/**
+ * Validate an Authorization header; null when it is missing or unknown
+ */
+export function authenticate(header: string | undefined): AuthInfo | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match) return null;
+
+  // Comparar hashes de tamanho fixo em tempo constante
+  const hash = hashToken(match[1]!);
+  const token = tokens.find(candidate => timingSafeEqual(candidate.hash, hash));
+  if (!token) return null;
+
+  return { token: match[1]!, clientId: token.id, scopes: token.allow, extra: { readOnly: token.readOnly } };
+}
+
+/**
+ * Token configured under an id
+ */
+export function getAuthToken(id: string | undefined): AuthToken | undefined {
+  const token = id ? tokens.find(candidate => candidate.id === id) : undefined;
+  return token && { id: token.id, allow: token.allow, readOnly: token.readOnly };
+}
+
+// ==================== Authorization ====================
+
+/**
+ * Why a token may not call a tool, or null when it may
+ */
+function denialReason(token: AuthToken, toolName: string): string | null {
+  const metadata = ToolFactory.get(toolName)?.metadata ?? {};
+  const category = metadata.category ?? 'utility';
+
+  if (!token.allow.some(entry => entry === '*' || entry === toolName || entry === category)) {
+    return `Token ${token.id} não tem acesso à ferramenta ${toolName}`;
+  }
+  if (token.readOnly && !metadata.isReadOnly) {
+    return `Token ${token.id} é somente leitura e ${toolName} não é read-only`;
+  }
+  return null;
+}
+
+/**
+ * Whether the token behind a request may call a tool; requests without a
+ * token (stdio, or auth disabled) may call anything
+ */
+export function isToolAllowed(tokenId: string | undefined, toolName: string): boolean {
+  const token = getAuthToken(tokenId);
+  return !token || denialReason(token, toolName) === null;
+}
+
+/**
+ * Throw FORBIDDEN when the token behind a request may not call a tool
+ */
+export function authorizeTool(tokenId: string | undefined, toolName: string): void {
+  const token = getAuthToken(tokenId);
+  const reason = token && denialReason(token, toolName);
+  if (reason) {
+    throw new MCPError(ErrorCode.FORBIDDEN, reason, { token: token!.id, tool: toolName });
+  }
+}
+
+/**
+ * Whether the token behind a request may list and read resources or prompts
+ */
+export function isCapabilityAllowed(tokenId: string | undefined, capability: AuthCapability): boolean {
+  const token = getAuthToken(tokenId);
+  return !token || token.allow.some(entry => entry === '*' || entry === capability);
+}
+
+/**
+ * Throw FORBIDDEN when the token behind a request may not use resources or prompts
+ */
+export function authorizeCapability(tokenId: string | undefined, capability: AuthCapability): void {
+  if (!isCapabilityAllowed(tokenId, capability)) {
+    throw new MCPError(ErrorCode.FORBIDDEN, `Token ${tokenId} não tem acesso a ${capability}`, { token: tokenId, capability });
+  }
+}
+
+/**
+ * Whether a request sees the state of every session: no token, or one allowed '*'
+ */
+export function hasFullAccess(tokenId: string | undefined): boolean {
+  const token = getAuthToken(tokenId);
+  return !token || token.allow.includes('*');
+}
+
+/**
+ * Whether output tagged with a session (log entries, screenshots) may be shown
+ * to a request: only within the same session and token. Output of no session
+ * goes only to requests that see everything
+ */
+export function isVisibleTo(owner: { session?: string; token?: string }, scope: SessionScope): boolean {
+  return owner.session
+    ? owner.session === scope.sessionId && owner.token === scope.tokenId
+    : hasFullAccess(scope.tokenId);
+}
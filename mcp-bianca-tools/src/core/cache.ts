@@ -0,0 +1,98 @@
+/**
+ * Tool result cache for BiancaTools
+ *
+ * Results of read-only tools are cached by the caching middleware. Entries of
+ * tools that read the browser page are keyed by the page state (session, URL and a DOM
+ * version supplied by the Puppeteer module) and dropped whenever a tool that
+ * changes the page runs.
+ */
+
+import type { ToolResponse } from './middleware.js';
+import type { ToolExecutionContext } from './types.js';
+import { cacheConfig } from '../config/index.js';
+
+/**
+ * Returns a key identifying the current page and DOM, or undefined without a page
+ */
+export type PageStateProvider = (args: Record<string, any>, execution?: ToolExecutionContext) => Promise<string | undefined>;
+
+interface CacheEntry {
+  data: ToolResponse;
+  expiry: number;
+  pageScoped: boolean;
+}
+
+let pageStateProvider: PageStateProvider = async () => undefined;
+
+/**
+ * Register how to read the current page state (done by the Puppeteer module)
+ */
+export function registerPageStateProvider(provider: PageStateProvider): void {
+  pageStateProvider = provider;
+}
+
+/**
+ * State of the page a call would act on, or undefined when no page is open
+ */
+export async function getPageState(args: Record<string, any>, execution?: ToolExecutionContext): Promise<string | undefined> {
+  return pageStateProvider(args, execution).catch(() => undefined);
+}
+
+export class ResultCache {
+  // Map preserves insertion order, so the first key is the least recently used
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): ToolResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiry <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.data;
+  }
+
+  set(key: string, data: ToolResponse, ttl: number, pageScoped: boolean): void {
+    this.entries.delete(key);
+    this.entries.set(key, { data, expiry: Date.now() + ttl, pageScoped });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Drop every entry that depends on the browser page
+   */
+  invalidatePage(): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.pageScoped) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache shared by every tool pipeline
+ */
+export const resultCache = new ResultCache(cacheConfig.maxEntries);
+
+/**
+ * Drop cached results that depend on the page, e.g. after a navigation
+ */
+export function invalidatePageCache(): void {
+  resultCache.invalidatePage();
+}
@@ -0,0 +1,142 @@
+/**
+ * Per-call execution context for BiancaTools tool handlers
+ *
+ * Carries what a handler needs from the MCP request that invoked it: the
+ * cancellation signal and the channel for progress notifications. When the
+ * tool has a timeout in config.tools.timeouts the signal also fires then.
+ */
+
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ProgressToken,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { ToolExecutionContext, MCPError, ErrorCode } from './types.js';
+
+/**
+ * Emits 'closed' with the session id when an MCP session ends, so modules can
+ * release per-session state
+ */
+export const sessionEvents = new EventEmitter();
+
+/**
+ * MCP session (and bearer token) a piece of work runs for
+ */
+export interface SessionScope {
+  sessionId: string;
+  tokenId?: string;
+}
+
+const sessionScope = new AsyncLocalStorage<SessionScope>();
+
+/**
+ * Run fn on behalf of an MCP session; the log entries and screenshots it
+ * produces are tagged with that session
+ */
+export function runInSession<T>(scope: SessionScope, fn: () => T): T {
+  return sessionScope.run(scope, fn);
+}
+
+/**
+ * Session the current work runs for, if any
+ */
+export function currentSession(): SessionScope | undefined {
+  return sessionScope.getStore();
+}
+
+/**
+ * Context used when a handler runs outside an MCP request
+ */
+export const NO_OP_CONTEXT: ToolExecutionContext = {
+  signal: new AbortController().signal,
+  reportProgress: async () => undefined
+};
+
+/**
+ * Build the execution context for a tools/call request
+ */
+export function createExecutionContext(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  progressToken?: ProgressToken,
+  sessionId: string | undefined = extra.sessionId,
+  timeoutMs?: number
+): ToolExecutionContext {
+  let lastProgress = -Infinity;
+
+  return {
+    signal: timeoutMs ? withTimeout(extra.signal, timeoutMs) : extra.signal,
+    sessionId,
+    authTokenId: extra.authInfo?.clientId,
+    requestId: extra.requestId,
+    reportProgress: async (progress, total, message) => {
+      // Without a token the client did not ask for progress
+      if (progressToken === undefined || progress <= lastProgress) {
+        return;
+      }
+      lastProgress = progress;
+
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          ...(message ? { message } : {})
+        }
+      }).catch(() => undefined);
+    }
+  };
+}
+
+/**
+ * Signal that fires when the parent does or after timeoutMs, whichever comes
+ * first (AbortSignal.any needs Node 20.3)
+ */
+export function withTimeout(parent: AbortSignal, timeoutMs: number): AbortSignal {
+  const controller = new AbortController();
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+    return controller.signal;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    controller.abort(parent.reason);
+  };
+  const timer = setTimeout(() => {
+    parent.removeEventListener('abort', onAbort);
+    controller.abort(new DOMException('Tempo limite excedido', 'TimeoutError'));
+  }, timeoutMs);
+  timer.unref();
+  parent.addEventListener('abort', onAbort, { once: true });
+
+  return controller.signal;
+}
+
+/**
+ * Whether the signal fired because the tool ran out of time
+ */
+export function isTimeoutAbort(signal: AbortSignal): boolean {
+  return signal.aborted && (signal.reason as Error | undefined)?.name === 'TimeoutError';
+}
+
+/**
+ * Settle with the operation, or reject as soon as the signal fires, so that
+ * handlers that ignore the signal still respect the timeout
+ */
+export function untilAborted<T>(operation: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(isTimeoutAbort(signal)
+      ? new MCPError(ErrorCode.TIMEOUT, 'Tempo limite da ferramenta excedido')
+      : new MCPError(ErrorCode.CANCELLED, 'Operação cancelada pelo cliente'));
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    operation
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
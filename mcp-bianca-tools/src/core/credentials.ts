@@ -0,0 +1,205 @@
+/**
+ * Encrypted credential store for BiancaTools
+ *
+ * Named login profiles live in config.credentials.file, encrypted with
+ * AES-256-GCM under a key derived (scrypt) from the master key in the
+ * environment variable named by config.credentials.keyEnv. Tools take a
+ * profile name and resolve it here, so passwords never travel in tool
+ * arguments, logs or the audit trail.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { credentialsConfig } from '../config/index.js';
+import { MCPError, ErrorCode } from './types.js';
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+interface StoredProfile extends Credentials {
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What callers may see about a profile: never the password
+ */
+export interface CredentialProfileInfo {
+  profile: string;
+  email: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string; // base64
+  iv: string;   // base64
+  tag: string;  // base64
+  data: string; // base64
+}
+
+type ProfileMap = Record<string, StoredProfile>;
+
+// ==================== Encryption ====================
+
+function masterKey(): string {
+  const key = process.env[credentialsConfig.keyEnv];
+  if (!key) {
+    throw new MCPError(
+      ErrorCode.AUTHENTICATION_ERROR,
+      `Cofre de credenciais indisponível: defina ${credentialsConfig.keyEnv} com a chave mestra`
+    );
+  }
+  return key;
+}
+
+function encrypt(profiles: ProfileMap): EncryptedFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', scryptSync(masterKey(), salt, 32), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(profiles), 'utf-8'), cipher.final()]);
+
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function decrypt(file: EncryptedFile): ProfileMap {
+  const key = scryptSync(masterKey(), Buffer.from(file.salt, 'base64'), 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf-8'));
+  } catch {
+    throw new MCPError(
+      ErrorCode.AUTHENTICATION_ERROR,
+      `Não foi possível abrir ${credentialsConfig.file}: chave mestra incorreta ou arquivo corrompido`
+    );
+  }
+}
+
+// ==================== Storage ====================
+
+// Serializa leitura-modificação-escrita para não perder alterações concorrentes
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(operation: () => Promise<T>): Promise<T> {
+  const next = queue.then(operation, operation);
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+async function readProfiles(): Promise<ProfileMap> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(credentialsConfig.file, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      masterKey(); // Falhar cedo mesmo com o cofre ainda vazio
+      return {};
+    }
+    throw error;
+  }
+  return decrypt(JSON.parse(raw));
+}
+
+async function writeProfiles(profiles: ProfileMap): Promise<void> {
+  const file = credentialsConfig.file;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  // Grava em arquivo temporário e renomeia para nunca deixar o cofre pela metade
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(encrypt(profiles), null, 2), { encoding: 'utf-8', mode: 0o600 });
+  await fs.rename(temp, file);
+}
+
+function toInfo(profile: string, stored: StoredProfile): CredentialProfileInfo {
+  return { profile, email: stored.email, createdAt: stored.createdAt, updatedAt: stored.updatedAt };
+}
+
+// ==================== Public API ====================
+
+/**
+ * Save a profile; replacing an existing one requires overwrite
+ */
+export function addCredentialProfile(
+  profile: string,
+  credentials: Credentials,
+  overwrite: boolean = false
+): Promise<CredentialProfileInfo> {
+  return serialized(async () => {
+    const profiles = await readProfiles();
+    const existing = profiles[profile];
+    if (existing && !overwrite) {
+      throw new MCPError(ErrorCode.INVALID_PARAMS, `Perfil ${profile} já existe; use overwrite para substituí-lo`, { profile });
+    }
+
+    const now = new Date().toISOString();
+    profiles[profile] = { ...credentials, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    await writeProfiles(profiles);
+    return toInfo(profile, profiles[profile]);
+  });
+}
+
+/**
+ * Profiles in the store, without passwords
+ */
+export function listCredentialProfiles(): Promise<CredentialProfileInfo[]> {
+  return serialized(async () => {
+    const profiles = await readProfiles();
+    return Object.entries(profiles)
+      .map(([profile, stored]) => toInfo(profile, stored))
+      .sort((a, b) => a.profile.localeCompare(b.profile));
+  });
+}
+
+/**
+ * Delete a profile
+ */
+export function removeCredentialProfile(profile: string): Promise<CredentialProfileInfo> {
+  return serialized(async () => {
+    const profiles = await readProfiles();
+    const stored = profiles[profile];
+    if (!stored) {
+      throw new MCPError(ErrorCode.NOT_FOUND, `Perfil de credenciais não encontrado: ${profile}`, { profile });
+    }
+
+    delete profiles[profile];
+    await writeProfiles(profiles);
+    return toInfo(profile, stored);
+  });
+}
+
+/**
+ * Credentials for a tool call: from the named profile, or from inline
+ * email/password when config.credentials.allowInline permits it
+ */
+export async function resolveCredentials(params: { profile?: string; email?: string; password?: string }): Promise<Credentials> {
+  if (params.profile) {
+    const profiles = await serialized(readProfiles);
+    const stored = profiles[params.profile];
+    if (!stored) {
+      throw new MCPError(ErrorCode.NOT_FOUND, `Perfil de credenciais não encontrado: ${params.profile}`, { profile: params.profile });
+    }
+    return { email: stored.email, password: stored.password };
+  }
+
+  if (params.email && params.password) {
+    if (!credentialsConfig.allowInline) {
+      throw new MCPError(ErrorCode.INVALID_PARAMS, 'Credenciais diretas estão desativadas; informe um profile', { field: 'profile' });
+    }
+    return { email: params.email, password: params.password };
+  }
+
+  throw new MCPError(ErrorCode.INVALID_PARAMS, 'Informe profile (ou email e password)', { field: 'profile' });
+}
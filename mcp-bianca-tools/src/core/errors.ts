@@ -0,0 +1,109 @@
+/**
+ * Structured tool errors for BiancaTools
+ *
+ * Failures are returned as tool results with isError set, so clients keep the
+ * ErrorCode and details instead of a flattened message.
+ */
+
+import { z } from 'zod';
+import { MCPError, ErrorCode } from './types.js';
+import { ToolFactory } from './factory.js';
+
+export interface ToolErrorPayload {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Normalize anything thrown by a handler into an MCPError
+ */
+export function toMCPError(error: unknown): MCPError {
+  if (error instanceof MCPError) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    return new MCPError(
+      ErrorCode.INVALID_PARAMS,
+      error.errors.map(e => `${e.path.join('.') || 'args'}: ${e.message}`).join('; '),
+      { issues: error.errors.map(e => ({ path: e.path, code: e.code, message: e.message })) }
+    );
+  }
+
+  if (error instanceof Error) {
+    // Puppeteer signals timeouts with a dedicated error class
+    const code = error.name === 'TimeoutError' ? ErrorCode.TIMEOUT : ErrorCode.UNKNOWN;
+    return new MCPError(code, error.message, { name: error.name });
+  }
+
+  return new MCPError(ErrorCode.UNKNOWN, String(error));
+}
+
+/**
+ * Machine-readable view of an error, safe to serialize
+ */
+export function toErrorPayload(error: MCPError): ToolErrorPayload {
+  const details = serializeDetails(error.details);
+
+  return {
+    code: error.code,
+    message: error.message,
+    ...(details !== undefined ? { details } : {})
+  };
+}
+
+/**
+ * Key of the MCPError kept on an error result; symbols are never serialized,
+ * so it stays on the server for nested callers (batch_execute, macros)
+ */
+const TOOL_ERROR = Symbol('toolError');
+
+/**
+ * The MCPError behind a result built by toolErrorResult
+ */
+export function getToolError(result: unknown): MCPError | undefined {
+  return result && typeof result === 'object'
+    ? (result as { [TOOL_ERROR]?: MCPError })[TOOL_ERROR]
+    : undefined;
+}
+
+/**
+ * Build the tools/call result for a failed tool. Tools that declare an
+ * outputSchema get no structuredContent, since clients check it against the
+ * schema even when isError is set
+ */
+export function toolErrorResult(toolName: string, error: unknown) {
+  const mcpError = toMCPError(error);
+  const payload = toErrorPayload(mcpError);
+
+  return {
+    [TOOL_ERROR]: mcpError,
+    content: [
+      { type: 'text', text: `Erro ao executar ${toolName}: ${mcpError.message}` },
+      { type: 'text', text: JSON.stringify({ error: payload }, null, 2) },
+      ...(mcpError.screenshot
+        ? [{ type: 'image', data: mcpError.screenshot, mimeType: 'image/png' }]
+        : [])
+    ],
+    ...(ToolFactory.getOutputSchema(toolName) ? {} : { structuredContent: { error: payload } }),
+    isError: true
+  };
+}
+
+function serializeDetails(details: unknown): Record<string, any> | undefined {
+  if (details === undefined || details === null) {
+    return undefined;
+  }
+  if (details instanceof Error) {
+    return { name: details.name, message: details.message };
+  }
+  if (typeof details === 'object') {
+    try {
+      return JSON.parse(JSON.stringify(details));
+    } catch {
+      return { value: String(details) };
+    }
+  }
+  return { value: details };
+}
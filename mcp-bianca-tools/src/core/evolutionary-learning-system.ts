@@ -92,6 +92,7 @@ export class EvolutionaryLearningSystem extends EventEmitter {
   private database!: EvolutionaryDatabase;
   private dbPath: string;
   private isInitialized: boolean = false;
+  private initialization: Promise<void>;
   private currentSession: string;
 
   // Configurações de aprendizado
@@ -107,7 +108,7 @@ export class EvolutionaryLearningSystem extends EventEmitter {
     super();
     this.dbPath = dbPath || path.join(process.cwd(), '../workspace/evolutionary-skills.json');
     this.currentSession = this.generateSessionId();
-    this.initializeDatabase();
+    this.initialization = this.initializeDatabase();
   }
 
   /**
@@ -361,6 +362,22 @@ export class EvolutionaryLearningSystem extends EventEmitter {
     };
   }
 
+  /**
+   * Obter todas as habilidades registradas
+   */
+  async getSkills(): Promise<EvolutionarySkill[]> {
+    await this.ensureInitialized();
+    return Object.values(this.database.skills);
+  }
+
+  /**
+   * Obter habilidade pelo id
+   */
+  async getSkill(skillId: string): Promise<EvolutionarySkill | null> {
+    await this.ensureInitialized();
+    return this.database.skills[skillId] || null;
+  }
+
   /**
    * Evolução automática do sistema
    */
@@ -410,6 +427,8 @@ export class EvolutionaryLearningSystem extends EventEmitter {
 
     await this.saveDatabase();
 
+    this.emit('system:evolved', { promotions, newExpertiseLevel, improvements: improvements.length });
+
     return { promotions, newExpertiseLevel, improvements };
   }
 
@@ -563,7 +582,8 @@ export class EvolutionaryLearningSystem extends EventEmitter {
 
   private async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
-      await this.initializeDatabase();
+      // Aguardar a inicialização disparada no construtor em vez de repeti-la
+      await this.initialization;
     }
   }
 
@@ -691,7 +711,10 @@ export class EvolutionaryLearningSystem extends EventEmitter {
     }
   }
 
-  private generateExecutionPlan(skill: EvolutionarySkill): string[] {
+  /**
+   * Plano de execução contextual de uma habilidade
+   */
+  generateExecutionPlan(skill: EvolutionarySkill): string[] {
     const plan = [...skill.steps];
     
     // Adicionar verificação de dependências se necessário
@@ -1,63 +1,157 @@
 /**
  * Factory pattern for tool creation in BiancaTools
+ *
+ * ToolFactory is the single tool registry: every tool module registers its
+ * tools here and the server lists and dispatches from it.
  */
 
-import { ToolName, ToolDefinition } from './types.js';
-import { ToolSchemas } from './schemas.js';
-import {
-  handleNavigate,
-  handleScreenshot,
-  handleClick,
-  handleType,
-  handleGetContent
-} from './handlers.js';
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { ToolName, ToolDefinition, ToolAnnotations, ToolExecutionContext } from './types.js';
+import { ToolSchemas, ToolOutputSchemas } from './schemas.js';
+import { toolsConfig, ToolCategorySchema } from '../config/index.js';
 
 // ==================== Tool Registry ====================
 
-interface ToolConfig {
-  name: ToolName;
+export type ToolCategory = z.infer<typeof ToolCategorySchema>;
+
+export interface ToolConfig {
+  name: ToolName | string;  // Plugin tools bring their own names
   description: string;
-  handler: (args: any) => Promise<any>;
-  schema?: any;
+  handler: (args: any, context?: ToolExecutionContext) => Promise<any>;
+  schema?: z.ZodTypeAny;
+  outputSchema?: z.AnyZodObject; // Shape of result.data, sent as structuredContent
   metadata?: {
     isReadOnly?: boolean;
     isDestructive?: boolean;
+    isIdempotent?: boolean;   // Default: same as isReadOnly
+    isOpenWorld?: boolean;    // Default: true for categories that reach the web
     requiresAuth?: boolean;
-    category?: 'puppeteer' | 'github' | 'utility';
+    cacheable?: boolean;      // Default: same as isReadOnly
+    category?: ToolCategory;
+    plugin?: string;          // Name of the plugin that registered the tool
+    macro?: string;           // File of the macro that defines the tool
   };
 }
 
+/**
+ * Emits 'list_changed' when tools are added or removed after startup
+ */
+export const toolEvents = new EventEmitter();
+toolEvents.setMaxListeners(0); // Um listener por sessão conectada
+
+// Categories whose tools interact with external sites or the OS browser
+const OPEN_WORLD_CATEGORIES: ToolCategory[] = ['puppeteer', 'ekyte', 'browser', 'github'];
+
 export class ToolFactory {
-  private static tools = new Map<ToolName, ToolConfig>();
-  
+  private static tools = new Map<string, ToolConfig>();
+
   /**
-   * Register a new tool
+   * Register a new tool; tools of categories left out of
+   * config.tools.enabledCategories are skipped
    */
   static register(config: ToolConfig): void {
+    if (!config.schema && !ToolSchemas[config.name as keyof typeof ToolSchemas]) {
+      throw new Error(`Tool ${config.name} has no input schema`);
+    }
+    if (!this.isCategoryEnabled(config.metadata?.category ?? 'utility')) {
+      return;
+    }
     this.tools.set(config.name, config);
   }
-  
+
+  /**
+   * Whether tools of a category are exposed by this server
+   */
+  static isCategoryEnabled(category: ToolCategory): boolean {
+    return toolsConfig.enabledCategories?.includes(category) ?? true;
+  }
+
+  /**
+   * Remove a tool from the registry
+   */
+  static unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Tell connected clients that the tool list changed
+   */
+  static notifyListChanged(): void {
+    toolEvents.emit('list_changed');
+  }
+
+  /**
+   * Get the registration of a tool
+   */
+  static get(name: string): ToolConfig | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Names of all registered tools
+   */
+  static getNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
   /**
    * Create a tool definition
    */
-  static create(name: ToolName): ToolDefinition | null {
+  static create(name: string): ToolDefinition | null {
     const config = this.tools.get(name);
     if (!config) return null;
-    
-    const schema = config.schema || ToolSchemas[name];
-    
+
+    const schema = config.schema || ToolSchemas[name as keyof typeof ToolSchemas];
+    const jsonSchema = this.zodToJsonSchema(schema);
+    const outputSchema = this.getOutputSchema(name);
+    const outputJsonSchema = outputSchema && this.zodToJsonSchema(outputSchema);
+
     return {
       name: config.name,
       description: config.description,
       inputSchema: {
         type: 'object',
-        properties: this.schemaToProperties(schema),
-        required: this.getRequiredFields(schema)
+        properties: jsonSchema.properties || {},
+        ...(jsonSchema.required ? { required: jsonSchema.required } : {})
       },
+      ...(outputJsonSchema ? {
+        outputSchema: {
+          type: 'object' as const,
+          properties: outputJsonSchema.properties || {},
+          ...(outputJsonSchema.required ? { required: outputJsonSchema.required } : {})
+        }
+      } : {}),
+      annotations: this.createAnnotations(config),
       handler: config.handler
     };
   }
-  
+
+  /**
+   * Output schema of a tool, if its result has a stable shape
+   */
+  static getOutputSchema(name: string): z.AnyZodObject | undefined {
+    const config = this.tools.get(name);
+    if (!config) return undefined;
+    return config.outputSchema || ToolOutputSchemas[name as ToolName];
+  }
+
+  /**
+   * Translate registry metadata into MCP tool annotations
+   */
+  static createAnnotations(config: ToolConfig): ToolAnnotations {
+    const metadata = config.metadata || {};
+    const isReadOnly = metadata.isReadOnly ?? false;
+
+    return {
+      readOnlyHint: isReadOnly,
+      // The spec assumes destructive when absent, so always send an explicit value
+      destructiveHint: !isReadOnly && (metadata.isDestructive ?? false),
+      idempotentHint: metadata.isIdempotent ?? isReadOnly,
+      openWorldHint: metadata.isOpenWorld ?? OPEN_WORLD_CATEGORIES.includes(metadata.category ?? 'utility')
+    };
+  }
+
   /**
    * Get all registered tools
    */
@@ -66,7 +160,7 @@ export class ToolFactory {
       .map(name => this.create(name))
       .filter((tool): tool is ToolDefinition => tool !== null);
   }
-  
+
   /**
    * Get tools by category
    */
@@ -76,127 +170,139 @@ export class ToolFactory {
       .map(([name, _]) => this.create(name))
       .filter((tool): tool is ToolDefinition => tool !== null);
   }
-  
+
   /**
-   * Convert Zod schema to JSON Schema properties
+   * Tool definitions as advertised through MCP (without handlers)
    */
-  private static schemaToProperties(schema: any): Record<string, any> {
-    if (!schema || !schema._def) return {};
-    
-    const shape = schema._def.shape?.() || {};
-    const properties: Record<string, any> = {};
-    
-    for (const [key, value] of Object.entries(shape)) {
-      properties[key] = this.zodToJsonSchema(value as any);
-    }
-    
-    return properties;
+  static listForMCP(): Array<Omit<ToolDefinition, 'handler'>> {
+    return this.getAll().map(({ handler: _handler, ...tool }) => tool);
   }
-  
+
   /**
-   * Get required fields from Zod schema
+   * Convert a Zod type to JSON Schema
    */
-  private static getRequiredFields(schema: any): string[] {
-    if (!schema || !schema._def) return [];
-    
-    const shape = schema._def.shape?.() || {};
-    const required: string[] = [];
-    
-    for (const [key, value] of Object.entries(shape)) {
-      const zodSchema = value as any;
-      if (!zodSchema.isOptional()) {
-        required.push(key);
+  static zodToJsonSchema(zod: z.ZodTypeAny | undefined): Record<string, any> {
+    if (!zod || !zod._def) return {};
+
+    const def = zod._def;
+    const withDescription = (schema: Record<string, any>) =>
+      def.description && !schema.description ? { ...schema, description: def.description } : schema;
+
+    switch (def.typeName) {
+      case z.ZodFirstPartyTypeKind.ZodObject: {
+        const shape = (zod as z.AnyZodObject).shape;
+        const properties: Record<string, any> = {};
+        const required: string[] = [];
+
+        for (const [key, value] of Object.entries(shape)) {
+          const field = value as z.ZodTypeAny;
+          properties[key] = this.zodToJsonSchema(field);
+          if (!field.isOptional()) {
+            required.push(key);
+          }
+        }
+
+        return withDescription({
+          type: 'object',
+          properties,
+          ...(required.length > 0 ? { required } : {})
+        });
       }
-    }
-    
-    return required;
-  }
-  
-  /**
-   * Convert Zod type to JSON Schema
-   */
-  private static zodToJsonSchema(zod: any): any {
-    const typeName = zod._def.typeName;
-    
-    switch (typeName) {
-      case 'ZodString':
-        return { type: 'string' };
-      case 'ZodNumber':
-        return { type: 'number' };
-      case 'ZodBoolean':
-        return { type: 'boolean' };
-      case 'ZodArray':
-        return {
+
+      case z.ZodFirstPartyTypeKind.ZodString: {
+        const schema: Record<string, any> = { type: 'string' };
+        for (const check of def.checks as z.ZodStringCheck[]) {
+          if (check.kind === 'min') schema.minLength = check.value;
+          if (check.kind === 'max') schema.maxLength = check.value;
+          if (check.kind === 'url') schema.format = 'uri';
+          if (check.kind === 'email') schema.format = 'email';
+          if (check.kind === 'datetime') schema.format = 'date-time';
+          if (check.kind === 'regex') schema.pattern = check.regex.source;
+        }
+        return withDescription(schema);
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodNumber: {
+        const schema: Record<string, any> = { type: 'number' };
+        for (const check of def.checks as z.ZodNumberCheck[]) {
+          if (check.kind === 'int') schema.type = 'integer';
+          if (check.kind === 'min') schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+          if (check.kind === 'max') schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        }
+        return withDescription(schema);
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodBoolean:
+        return withDescription({ type: 'boolean' });
+
+      case z.ZodFirstPartyTypeKind.ZodDate:
+        return withDescription({ type: 'string', format: 'date-time' });
+
+      case z.ZodFirstPartyTypeKind.ZodArray:
+        return withDescription({
           type: 'array',
-          items: this.zodToJsonSchema(zod._def.type)
-        };
-      case 'ZodEnum':
-        return {
+          items: this.zodToJsonSchema(def.type)
+        });
+
+      case z.ZodFirstPartyTypeKind.ZodEnum:
+        return withDescription({
           type: 'string',
-          enum: zod._def.values
-        };
-      case 'ZodOptional':
-        return this.zodToJsonSchema(zod._def.innerType);
+          enum: def.values
+        });
+
+      case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+        // Skip the reverse mappings TypeScript adds to numeric enums
+        const values = def.values as Record<string, string | number>;
+        return withDescription({
+          enum: Object.keys(values)
+            .filter(key => typeof values[values[key] as string] !== 'number')
+            .map(key => values[key])
+        });
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodLiteral:
+        return withDescription({ const: def.value });
+
+      case z.ZodFirstPartyTypeKind.ZodUnion:
+      case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+        const options: z.ZodTypeAny[] = Array.isArray(def.options)
+          ? def.options
+          : Array.from(def.options.values());
+        return withDescription({
+          anyOf: options.map(option => this.zodToJsonSchema(option))
+        });
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodRecord:
+        return withDescription({
+          type: 'object',
+          additionalProperties: this.zodToJsonSchema(def.valueType)
+        });
+
+      case z.ZodFirstPartyTypeKind.ZodOptional:
+        return withDescription(this.zodToJsonSchema(def.innerType));
+
+      case z.ZodFirstPartyTypeKind.ZodNullable: {
+        const inner = this.zodToJsonSchema(def.innerType);
+        return withDescription({ anyOf: [inner, { type: 'null' }] });
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodDefault:
+        return withDescription({
+          ...this.zodToJsonSchema(def.innerType),
+          default: def.defaultValue()
+        });
+
+      case z.ZodFirstPartyTypeKind.ZodEffects:
+        return withDescription(this.zodToJsonSchema(def.schema));
+
+      case z.ZodFirstPartyTypeKind.ZodAny:
+      case z.ZodFirstPartyTypeKind.ZodUnknown:
+        return withDescription({});
+
+      // Tipos sem conversão (intersection, tuple...): aceitar qualquer valor e deixar o Zod validar
       default:
-        return { type: 'string' };
+        return withDescription({});
     }
   }
 }
-
-// ==================== Register Built-in Tools ====================
-
-// Puppeteer Tools
-ToolFactory.register({
-  name: ToolName.PUPPETEER_NAVIGATE,
-  description: 'Navigate to a URL',
-  handler: handleNavigate,
-  metadata: {
-    category: 'puppeteer',
-    isReadOnly: false,
-    requiresAuth: false
-  }
-});
-
-ToolFactory.register({
-  name: ToolName.PUPPETEER_SCREENSHOT,
-  description: 'Take a screenshot of the current page',
-  handler: handleScreenshot,
-  metadata: {
-    category: 'puppeteer',
-    isReadOnly: true,
-    requiresAuth: false
-  }
-});
-
-ToolFactory.register({
-  name: ToolName.PUPPETEER_CLICK,
-  description: 'Click on an element',
-  handler: handleClick,
-  metadata: {
-    category: 'puppeteer',
-    isReadOnly: false,
-    requiresAuth: false
-  }
-});
-
-ToolFactory.register({
-  name: ToolName.PUPPETEER_TYPE,
-  description: 'Type text into an element',
-  handler: handleType,
-  metadata: {
-    category: 'puppeteer',
-    isReadOnly: false,
-    requiresAuth: false
-  }
-});
-
-ToolFactory.register({
-  name: ToolName.PUPPETEER_GET_CONTENT,
-  description: 'Get the HTML content of the current page',
-  handler: handleGetContent,
-  metadata: {
-    category: 'puppeteer',
-    isReadOnly: true,
-    requiresAuth: false
-  }
-});
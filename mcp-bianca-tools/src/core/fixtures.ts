@@ -0,0 +1,217 @@
+/**
+ * Network fixtures for Puppeteer tools
+ *
+ * In record mode every response seen by a page is captured, along with a DOM
+ * snapshot at the end of each tool run, under config.fixtures.dir/<set>. In
+ * replay mode request interception serves those responses from disk, so the
+ * tools run offline and deterministically. Cookies and credentials headers
+ * are never written to disk; keep recorded sets out of version control.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { Page, HTTPRequest, HTTPResponse } from 'puppeteer';
+import { isSensitiveKey } from './audit.js';
+import { fixturesConfig } from '../config/index.js';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface RecordedResponse {
+  method: string;
+  url: string;
+  postDataHash?: string;
+  status: number;
+  headers: Record<string, string>;
+  body?: string; // base64
+}
+
+// Cabeçalhos que não valem mais depois que o corpo foi decodificado
+const STRIPPED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+// ==================== State ====================
+
+let mode: FixtureMode = fixturesConfig.mode;
+let setName = fixturesConfig.name;
+let recorded: RecordedResponse[] = [];
+let replayIndex = new Map<string, RecordedResponse[]>();
+const replayCursor = new Map<string, number>();
+let snapshotCount = 0;
+
+const attachedPages = new WeakSet<Page>();
+
+function setDir(): string {
+  return path.resolve(fixturesConfig.dir, setName);
+}
+
+function hashPostData(postData: string): string {
+  return createHash('sha1').update(postData).digest('hex').slice(0, 12);
+}
+
+function requestKey(method: string, url: string, postDataHash?: string): string {
+  return `${method} ${url} ${postDataHash ?? ''}`;
+}
+
+// ==================== Public API ====================
+
+/**
+ * Current fixture mode
+ */
+export function getFixtureMode(): FixtureMode {
+  return mode;
+}
+
+/**
+ * Switch mode and fixture set, e.g. from a test's beforeAll; pages that are
+ * already open keep the mode they were attached with
+ */
+export async function useFixtures(nextMode: FixtureMode, name: string = setName): Promise<void> {
+  mode = nextMode;
+  setName = name;
+  recorded = [];
+  replayIndex = new Map();
+  replayCursor.clear();
+  snapshotCount = 0;
+
+  if (mode === 'replay') {
+    await loadFixtureSet();
+  }
+}
+
+/**
+ * Hook a page into the active mode; safe to call more than once per page
+ */
+export async function attachFixtures(page: Page): Promise<void> {
+  if (mode === 'off' || attachedPages.has(page)) {
+    return;
+  }
+  attachedPages.add(page);
+
+  if (mode === 'record') {
+    page.on('response', response => {
+      captureResponse(response).catch(() => undefined);
+    });
+    return;
+  }
+
+  if (replayIndex.size === 0) {
+    await loadFixtureSet();
+  }
+  await page.setRequestInterception(true);
+  page.on('request', request => {
+    serveRequest(request).catch(() => undefined);
+  });
+}
+
+/**
+ * In record mode, save the DOM of the page and flush captured responses
+ */
+export async function recordToolRun(page: Page | null, label: string): Promise<void> {
+  if (mode !== 'record') {
+    return;
+  }
+
+  const dir = setDir();
+  await fs.mkdir(path.join(dir, 'dom'), { recursive: true });
+
+  if (page && !page.isClosed()) {
+    const html = await page.content().catch(() => null);
+    if (html !== null) {
+      const file = `${String(++snapshotCount).padStart(3, '0')}-${label.replace(/[^a-z0-9_-]/gi, '_')}.html`;
+      await fs.writeFile(path.join(dir, 'dom', file), html, 'utf-8');
+    }
+  }
+
+  await fs.writeFile(path.join(dir, 'network.json'), JSON.stringify(recorded, null, 2), 'utf-8');
+}
+
+/**
+ * DOM snapshots of the active set, in recording order
+ */
+export async function readDomSnapshots(): Promise<Array<{ file: string; html: string }>> {
+  const dir = path.join(setDir(), 'dom');
+  const files = (await fs.readdir(dir).catch(() => [] as string[])).filter(f => f.endsWith('.html')).sort();
+
+  return Promise.all(files.map(async file => ({
+    file,
+    html: await fs.readFile(path.join(dir, file), 'utf-8')
+  })));
+}
+
+// ==================== Record ====================
+
+async function captureResponse(response: HTTPResponse): Promise<void> {
+  const request = response.request();
+  const url = request.url();
+  if (url.startsWith('data:') || url.startsWith('blob:')) {
+    return;
+  }
+
+  const status = response.status();
+  // Redirecionamentos não têm corpo acessível
+  const body = status >= 300 && status < 400
+    ? undefined
+    : await response.buffer().then(buffer => buffer.toString('base64')).catch(() => undefined);
+
+  const postData = request.postData();
+  recorded.push({
+    method: request.method(),
+    url,
+    ...(postData ? { postDataHash: hashPostData(postData) } : {}),
+    status,
+    // Set-Cookie, Authorization e afins ficam fora do disco (chaves redigidas do audit log)
+    headers: Object.fromEntries(Object.entries(response.headers()).filter(([name]) => !isSensitiveKey(name))),
+    ...(body !== undefined ? { body } : {})
+  });
+}
+
+// ==================== Replay ====================
+
+async function loadFixtureSet(): Promise<void> {
+  const file = path.join(setDir(), 'network.json');
+  let entries: RecordedResponse[];
+
+  try {
+    entries = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch {
+    throw new Error(`Fixtures não encontradas em ${file}; grave-as com FIXTURES_MODE=record`);
+  }
+
+  replayIndex = new Map();
+  for (const entry of entries) {
+    const key = requestKey(entry.method, entry.url, entry.postDataHash);
+    const list = replayIndex.get(key) ?? [];
+    list.push(entry);
+    replayIndex.set(key, list);
+  }
+}
+
+async function serveRequest(request: HTTPRequest): Promise<void> {
+  const url = request.url();
+  if (url.startsWith('data:') || url.startsWith('blob:') || url === 'about:blank') {
+    return request.continue();
+  }
+
+  const postData = request.postData();
+  const key = requestKey(request.method(), url, postData ? hashPostData(postData) : undefined);
+  const candidates = replayIndex.get(key);
+
+  if (!candidates || candidates.length === 0) {
+    return fixturesConfig.strict ? request.abort('internetdisconnected') : request.continue();
+  }
+
+  // Respostas repetidas são servidas na ordem gravada; a última se repete
+  const cursor = replayCursor.get(key) ?? 0;
+  const entry = candidates[Math.min(cursor, candidates.length - 1)]!;
+  replayCursor.set(key, cursor + 1);
+
+  const headers = Object.fromEntries(
+    Object.entries(entry.headers).filter(([name]) => !STRIPPED_HEADERS.includes(name.toLowerCase()))
+  );
+
+  return request.respond({
+    status: entry.status,
+    headers,
+    ...(entry.body !== undefined ? { body: Buffer.from(entry.body, 'base64') } : {})
+  });
+}
@@ -0,0 +1,340 @@
+/**
+ * HTTP transport for BiancaTools
+ *
+ * Serves MCP over Streamable HTTP on a single endpoint and, optionally, the
+ * legacy HTTP+SSE transport for older clients. Every session gets its own
+ * Server instance, so several agents can share one process and one browser.
+ * The same listener serves metrics in the OpenMetrics text format. With
+ * config.auth.enabled every endpoint requires an Authorization: Bearer token
+ * and a session can only be used with the token that opened it. Requests from
+ * unexpected Origins or Hosts are refused to guard against DNS rebinding.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Config } from '../config/index.js';
+import { registerGauge, renderOpenMetrics } from './metrics.js';
+import { isAuthEnabled, getUsableTokenCount, authenticate } from './auth.js';
+import { logger } from '../utils/logger.js';
+
+// ==================== Types ====================
+
+export type HttpTransportOptions = Config['transport'];
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  owner?: string; // Id do token que abriu a sessão
+  lastActivity: number;
+}
+
+// O SDK repassa req.auth aos handlers como extra.authInfo
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+// ==================== Session Registry ====================
+
+const sessions = new Map<string, HttpSession>();
+
+// Clientes que somem sem DELETE deixariam a sessão aberta para sempre
+let idleSweep: NodeJS.Timeout | undefined;
+
+registerGauge('bianca_http_sessions', 'Open MCP HTTP sessions.', () => sessions.size);
+
+/**
+ * Number of open HTTP sessions
+ */
+export function getHttpSessionCount(): number {
+  return sessions.size;
+}
+
+// ==================== Helpers ====================
+
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Corpo da requisição excede ${limit} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    throw new BodyTooLargeError(maxBytes);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new BodyTooLargeError(maxBytes);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+function sendUnauthorized(res: ServerResponse): void {
+  res.setHeader('WWW-Authenticate', 'Bearer realm="bianca-tools"');
+  sendJsonRpcError(res, 401, -32001, 'Token de acesso ausente ou inválido');
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const hostnameOf = (value: string) => {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Why a request's Origin or Host is not accepted, or null when it is. Without
+ * allowedHosts the Host is only checked when listening on loopback; requests
+ * without Origin come from non-browser clients and are accepted.
+ */
+function originRejection(req: IncomingMessage, options: HttpTransportOptions): string | null {
+  const origin = req.headers.origin;
+  if (origin) {
+    const originHost = hostnameOf(origin);
+    const allowed = options.allowedOrigins.length > 0
+      ? options.allowedOrigins.includes(origin)
+      : !!originHost && LOOPBACK_HOSTS.includes(originHost);
+    if (!allowed) return `Origin não permitida: ${origin}`;
+  }
+
+  const hosts = options.allowedHosts.length > 0
+    ? options.allowedHosts
+    : LOOPBACK_HOSTS.includes(hostnameOf(options.host) ?? '') ? LOOPBACK_HOSTS : null;
+  const host = hostnameOf(req.headers.host ?? '');
+  if (hosts && (!host || !hosts.includes(host))) {
+    return `Host não permitido: ${req.headers.host ?? '(ausente)'}`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether the request may use a session: only with the token that opened it
+ */
+function ownsSession(req: AuthenticatedRequest, session: HttpSession): boolean {
+  return session.owner === req.auth?.clientId;
+}
+
+// ==================== Streamable HTTP ====================
+
+async function handleStreamableRequest(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  options: HttpTransportOptions,
+  createServer: (tokenId?: string) => Server
+): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const body = req.method === 'POST' ? await readJsonBody(req, options.maxBodySize) : undefined;
+
+  const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+  if (existing) {
+    if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 400, -32000, 'Sessão pertence a outro transporte');
+      return;
+    }
+    if (!ownsSession(req, existing)) {
+      sendJsonRpcError(res, 403, -32000, 'Sessão pertence a outro token');
+      return;
+    }
+    existing.lastActivity = Date.now();
+    await existing.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, 'Sessão inválida ou ausente');
+    return;
+  }
+
+  const server = createServer(req.auth?.clientId);
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, { transport, server, owner: req.auth?.clientId, lastActivity: Date.now() });
+      logger.info(`Sessão HTTP iniciada: ${id}`, req.auth ? { token: req.auth.clientId } : undefined);
+    }
+  });
+
+  // connect() substitui transport.onclose; encadear depois dele
+  await server.connect(transport);
+  const onclose = transport.onclose;
+  transport.onclose = () => {
+    onclose?.();
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+      logger.info(`Sessão HTTP encerrada: ${transport.sessionId}`);
+    }
+  };
+
+  await transport.handleRequest(req, res, body);
+}
+
+// ==================== Legacy SSE ====================
+
+async function handleSseConnect(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  options: HttpTransportOptions,
+  createServer: (tokenId?: string) => Server
+): Promise<void> {
+  const server = createServer(req.auth?.clientId);
+  const transport = new SSEServerTransport(options.messagesPath, res);
+
+  sessions.set(transport.sessionId, { transport, server, owner: req.auth?.clientId, lastActivity: Date.now() });
+  logger.info(`Sessão SSE iniciada: ${transport.sessionId}`, req.auth ? { token: req.auth.clientId } : undefined);
+
+  res.on('close', () => {
+    sessions.delete(transport.sessionId);
+    logger.info(`Sessão SSE encerrada: ${transport.sessionId}`);
+  });
+
+  await server.connect(transport);
+}
+
+async function handleSseMessage(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  options: HttpTransportOptions,
+  url: URL
+): Promise<void> {
+  const sessionId = url.searchParams.get('sessionId') ?? '';
+  const session = sessions.get(sessionId);
+
+  if (!session || !(session.transport instanceof SSEServerTransport)) {
+    sendJsonRpcError(res, 400, -32000, 'Sessão SSE não encontrada');
+    return;
+  }
+  if (!ownsSession(req, session)) {
+    sendJsonRpcError(res, 403, -32000, 'Sessão pertence a outro token');
+    return;
+  }
+
+  session.lastActivity = Date.now();
+  await session.transport.handlePostMessage(req, res, await readJsonBody(req, options.maxBodySize));
+}
+
+/**
+ * Close sessions that received no request for longer than idleMs
+ */
+function startIdleSweep(idleMs: number): void {
+  idleSweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (now - session.lastActivity > idleMs) {
+        logger.info(`Sessão ${id} fechada por inatividade`);
+        session.transport.close().catch(() => undefined);
+        sessions.delete(id);
+      }
+    }
+  }, Math.min(idleMs, 60000));
+  idleSweep.unref();
+}
+
+// ==================== Listener ====================
+
+/**
+ * Start the HTTP listener and route requests to the MCP transports
+ */
+export async function startHttpServer(
+  options: HttpTransportOptions,
+  createServer: (tokenId?: string) => Server
+): Promise<HttpServer> {
+  // Falhar fechado: com auth ativada e nenhum token utilizável ninguém entraria
+  if (isAuthEnabled() && getUsableTokenCount() === 0) {
+    throw new Error('Autenticação ativada, mas nenhum token está disponível (verifique auth.tokens)');
+  }
+
+  const httpServer = createHttpServer(async (req: AuthenticatedRequest, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? options.host}`);
+
+    try {
+      const rejection = originRejection(req, options);
+      if (rejection) {
+        logger.warn(`Requisição HTTP recusada: ${rejection}`, { path: url.pathname, remote: req.socket.remoteAddress });
+        sendJsonRpcError(res, 403, -32000, rejection);
+        return;
+      }
+
+      if (isAuthEnabled()) {
+        const auth = authenticate(req.headers.authorization);
+        if (!auth) {
+          logger.warn('Requisição HTTP recusada: token ausente ou inválido', {
+            path: url.pathname,
+            remote: req.socket.remoteAddress
+          });
+          sendUnauthorized(res);
+          return;
+        }
+        req.auth = auth;
+      }
+
+      if (url.pathname === options.path) {
+        await handleStreamableRequest(req, res, options, createServer);
+      } else if (options.sseFallback && url.pathname === options.ssePath && req.method === 'GET') {
+        await handleSseConnect(req, res, options, createServer);
+      } else if (options.sseFallback && url.pathname === options.messagesPath && req.method === 'POST') {
+        await handleSseMessage(req, res, options, url);
+      } else if (options.metricsPath && url.pathname === options.metricsPath && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/openmetrics-text; version=1.0.0; charset=utf-8' })
+          .end(await renderOpenMetrics());
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error) {
+      logger.error('Erro ao processar requisição HTTP', error as Error);
+      if (!res.headersSent && error instanceof BodyTooLargeError) {
+        sendJsonRpcError(res, 413, -32600, error.message);
+      } else if (!res.headersSent) {
+        const invalidJson = error instanceof SyntaxError;
+        sendJsonRpcError(res, invalidJson ? 400 : 500, invalidJson ? -32700 : -32603,
+          invalidJson ? 'JSON inválido' : 'Erro interno do servidor');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  if (options.sessionIdleTime > 0) {
+    startIdleSweep(options.sessionIdleTime);
+  }
+
+  return httpServer;
+}
+
+/**
+ * Close every open session and stop the listener
+ */
+export async function stopHttpServer(httpServer: HttpServer): Promise<void> {
+  clearInterval(idleSweep);
+  for (const { transport } of sessions.values()) {
+    await transport.close().catch(() => undefined);
+  }
+  sessions.clear();
+
+  await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+}
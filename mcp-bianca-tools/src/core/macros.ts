@@ -0,0 +1,525 @@
+/**
+ * Declarative composite tools (macros) for BiancaTools
+ *
+ * A macro is a YAML or JSON file in config.macros.dir that describes a new
+ * tool as a sequence of calls to registered tools. Step arguments can use
+ * ${input.x} and ${steps.<index|id>.result} (or .text) placeholders, and a
+ * step runs only when its `if` condition holds. Macros are loaded at startup
+ * and registered in ToolFactory like native tools:
+ *
+ *   name: page_snapshot
+ *   description: Open a page and capture it
+ *   input:
+ *     url: { type: string }
+ *   steps:
+ *     - { id: open, tool: puppeteer_navigate, args: { url: '${input.url}' } }
+ *     - { tool: puppeteer_screenshot, args: { path: shot.png }, if: 'steps.open.result' }
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { ToolFactory, ToolConfig } from './factory.js';
+import { MCPError, ToolExecutionContext } from './types.js';
+import { invokeTool } from './pipeline.js';
+import { NO_OP_CONTEXT } from './context.js';
+import { toMCPError } from './errors.js';
+import { macrosConfig, ToolCategorySchema } from '../config/index.js';
+import { successResponse } from '../utils.js';
+import { logger } from '../utils/logger.js';
+
+// ==================== Macro Definition ====================
+
+const MacroInputSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean', 'object', 'array']),
+  description: z.string().optional(),
+  required: z.boolean().default(true),
+  default: z.unknown().optional(),
+  enum: z.array(z.string()).min(1).optional()
+}).refine(input => !input.enum || input.type === 'string', 'enum só é aceito em entradas do tipo string');
+
+const MacroStepSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_-]*$/, 'use letras, números, _ ou - (sem começar com número)').optional(),
+  tool: z.string().min(1),
+  args: z.record(z.unknown()).default({}),
+  if: z.string().min(1).optional()
+});
+
+const MacroSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, 'use snake_case (a-z, 0-9, _)'),
+  description: z.string().min(1),
+  category: ToolCategorySchema.default('utility'),
+  readOnly: z.boolean().default(false),
+  input: z.record(MacroInputSchema).default({}),
+  steps: z.array(MacroStepSchema).min(1),
+  result: z.unknown().optional() // Template do resultado; padrão: resultado do último passo
+});
+
+export type MacroDefinition = z.infer<typeof MacroSchema>;
+
+// Resultado de toda macro, enviado como structuredContent
+const MacroOutputSchema = z.object({
+  result: z.unknown(),
+  steps: z.array(z.object({
+    id: z.string(),
+    tool: z.string(),
+    status: z.enum(['success', 'skipped'])
+  }))
+});
+
+export interface LoadedMacro {
+  name: string;
+  source: string;
+  steps: number;
+}
+
+export interface MacroLoadReport {
+  loaded: LoadedMacro[];
+  failed: Array<{ source: string; error: string }>;
+}
+
+interface StepOutput {
+  result: any;
+  text: string;
+}
+
+interface MacroScope {
+  input: Record<string, any>;
+  steps: Record<string, StepOutput | undefined>;
+}
+
+// ==================== State ====================
+
+const loadedMacros = new Map<string, LoadedMacro>();
+
+/**
+ * Macros currently registered
+ */
+export function getLoadedMacros(): LoadedMacro[] {
+  return Array.from(loadedMacros.values());
+}
+
+// ==================== Expressions ====================
+
+// Placeholder ${caminho}; uma string que é só o placeholder recebe o valor original
+const PLACEHOLDER = /\$\{\s*([^{}]+?)\s*\}/g;
+const WHOLE_PLACEHOLDER = /^\$\{\s*([^{}]+?)\s*\}$/;
+const BARE_PATH = /^(input|steps)(\.[a-zA-Z0-9_-]+)+$/;
+
+type Operand = { path: string } | { literal: unknown };
+
+interface Condition {
+  negate: boolean;
+  left: Operand;
+  operator?: '==' | '!=';
+  right?: Operand;
+}
+
+/**
+ * Check that a placeholder path points at a declared input or an earlier step
+ */
+function checkPath(expression: string, macro: MacroDefinition, stepIndex: number): void {
+  const [root, key, field] = expression.split('.');
+
+  if (root === 'input') {
+    if (!key || !(key in macro.input)) {
+      throw new Error(`\${${expression}}: entrada "${key ?? ''}" não declarada em input`);
+    }
+    return;
+  }
+
+  if (root === 'steps') {
+    const target = /^\d+$/.test(key ?? '')
+      ? Number(key)
+      : macro.steps.findIndex(step => step.id === key);
+    if (target < 0 || target >= stepIndex) {
+      throw new Error(`\${${expression}}: o passo "${key ?? ''}" não existe antes deste ponto`);
+    }
+    if (field !== 'result' && field !== 'text') {
+      throw new Error(`\${${expression}}: use steps.${key}.result ou steps.${key}.text`);
+    }
+    return;
+  }
+
+  throw new Error(`\${${expression}}: referências começam com input. ou steps.`);
+}
+
+/**
+ * Validate every placeholder found in a template
+ */
+function checkTemplate(value: unknown, macro: MacroDefinition, stepIndex: number): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PLACEHOLDER)) {
+      checkPath(match[1]!, macro, stepIndex);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => checkTemplate(item, macro, stepIndex));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => checkTemplate(item, macro, stepIndex));
+  }
+}
+
+function parseOperand(text: string): Operand {
+  const whole = text.match(WHOLE_PLACEHOLDER);
+  if (whole) return { path: whole[1]! };
+  if (BARE_PATH.test(text)) return { path: text };
+  if (/^'.*'$/.test(text)) return { literal: text.slice(1, -1) };
+
+  try {
+    return { literal: JSON.parse(text) }; // "texto", números, true, false, null
+  } catch {
+    throw new Error(`Operando inválido na condição: ${text}`);
+  }
+}
+
+/**
+ * Parse an `if`: `expr`, `!expr`, `a == b` or `a != b`
+ */
+function parseCondition(text: string): Condition {
+  const comparison = text.match(/^(.+?)\s*(==|!=)\s*(.+)$/);
+  if (comparison) {
+    return {
+      negate: false,
+      left: parseOperand(comparison[1]!.trim()),
+      operator: comparison[2] as '==' | '!=',
+      right: parseOperand(comparison[3]!.trim())
+    };
+  }
+
+  const trimmed = text.trim();
+  const negate = trimmed.startsWith('!');
+  return { negate, left: parseOperand(negate ? trimmed.slice(1).trim() : trimmed) };
+}
+
+function lookup(scope: MacroScope, expression: string): any {
+  let value: any = scope;
+  for (const key of expression.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Replace placeholders with values from the scope
+ */
+function interpolate(value: unknown, scope: MacroScope): any {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return lookup(scope, whole[1]!);
+    }
+    return value.replace(PLACEHOLDER, (_match, expression: string) => {
+      const resolved = lookup(scope, expression);
+      if (resolved === undefined || resolved === null) return '';
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    // Chaves cujo placeholder resolve para undefined são omitidas (ex.: entrada opcional)
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, interpolate(item, scope)])
+        .filter(([, item]) => item !== undefined)
+    );
+  }
+  return value;
+}
+
+const isTruthy = (value: unknown) => Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+function evaluateCondition(condition: Condition, scope: MacroScope): boolean {
+  const resolve = (operand: Operand) => 'path' in operand ? lookup(scope, operand.path) : operand.literal;
+  const left = resolve(condition.left);
+
+  if (!condition.operator) {
+    return condition.negate ? !isTruthy(left) : isTruthy(left);
+  }
+
+  const equal = JSON.stringify(left) === JSON.stringify(resolve(condition.right!));
+  return condition.operator === '==' ? equal : !equal;
+}
+
+// ==================== Input Schema ====================
+
+/**
+ * Zod schema for a macro's declared inputs
+ */
+function buildInputSchema(input: MacroDefinition['input']): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, spec] of Object.entries(input)) {
+    let field: z.ZodTypeAny;
+    switch (spec.type) {
+      case 'string':
+        field = spec.enum ? z.enum(spec.enum as [string, ...string[]]) : z.string();
+        break;
+      case 'number':
+        field = z.number();
+        break;
+      case 'boolean':
+        field = z.boolean();
+        break;
+      case 'object':
+        field = z.record(z.any());
+        break;
+      case 'array':
+        field = z.array(z.any());
+        break;
+    }
+
+    if (spec.description) field = field.describe(spec.description);
+    if (spec.default !== undefined) field = field.default(spec.default);
+    else if (!spec.required) field = field.optional();
+    shape[key] = field;
+  }
+
+  return z.object(shape);
+}
+
+// ==================== Execution ====================
+
+/**
+ * Run the steps of a macro in order; the first failing step aborts the macro
+ */
+async function runMacro(
+  macro: MacroDefinition,
+  input: Record<string, any>,
+  conditions: Array<Condition | undefined>,
+  context: ToolExecutionContext
+) {
+  const scope: MacroScope = { input, steps: {} };
+  const summary: Array<{ id: string; tool: string; status: 'success' | 'skipped' }> = [];
+  let last: StepOutput | undefined;
+
+  for (const [index, step] of macro.steps.entries()) {
+    const id = step.id ?? String(index);
+    const condition = conditions[index];
+
+    if (condition && !evaluateCondition(condition, scope)) {
+      summary.push({ id, tool: step.tool, status: 'skipped' });
+      await context.reportProgress(index + 1, macro.steps.length, `${step.tool}: skipped`);
+      continue;
+    }
+
+    try {
+      const result = await invokeTool(step.tool, interpolate(step.args, scope), context);
+      const text = (result?.content ?? [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('\n');
+
+      last = { result: result?.data ?? result?.structuredContent ?? text, text };
+    } catch (error) {
+      const mcpError = toMCPError(error);
+      throw new MCPError(
+        mcpError.code,
+        `Passo ${id} (${step.tool}) da macro ${macro.name} falhou: ${mcpError.message}`,
+        { macro: macro.name, step: id, tool: step.tool, cause: mcpError.details }
+      );
+    }
+
+    scope.steps[String(index)] = last;
+    if (step.id) scope.steps[step.id] = last;
+    summary.push({ id, tool: step.tool, status: 'success' });
+    await context.reportProgress(index + 1, macro.steps.length, `${step.tool}: success`);
+  }
+
+  const result = macro.result !== undefined ? interpolate(macro.result, scope) : last?.result;
+  const executed = summary.filter(step => step.status === 'success').length;
+
+  return successResponse(
+    { result, steps: summary },
+    `Macro ${macro.name}: ${executed} de ${macro.steps.length} passos executados`
+  );
+}
+
+// ==================== Loading ====================
+
+/**
+ * Macro definitions in a file: a single macro or a `macros:` list
+ */
+async function readMacroFile(file: string): Promise<unknown[]> {
+  const content = await fs.readFile(file, 'utf-8');
+  const document: any = file.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+
+  if (Array.isArray(document?.macros)) return document.macros;
+  if (document && typeof document === 'object') return [document];
+  throw new Error('o arquivo não contém uma macro nem uma lista macros');
+}
+
+/**
+ * Validate a definition and everything that can be checked before registering
+ */
+function parseMacro(raw: unknown): { macro: MacroDefinition; conditions: Array<Condition | undefined> } {
+  const parsed = MacroSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(e => `${e.path.join('.') || 'macro'}: ${e.message}`);
+    throw new Error(`Macro inválida: ${issues.join('; ')}`);
+  }
+
+  const macro = parsed.data;
+  const ids = macro.steps.map(step => step.id).filter(Boolean);
+  const duplicated = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicated) {
+    throw new Error(`Passo ${duplicated} declarado mais de uma vez`);
+  }
+
+  const conditions = macro.steps.map((step, index) => {
+    try {
+      checkTemplate(step.args, macro, index);
+      if (!step.if) return undefined;
+
+      const condition = parseCondition(step.if);
+      for (const operand of [condition.left, condition.right]) {
+        if (operand && 'path' in operand) checkPath(operand.path, macro, index);
+      }
+      return condition;
+    } catch (error) {
+      throw new Error(`Passo ${step.id ?? index}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  checkTemplate(macro.result, macro, macro.steps.length);
+
+  return { macro, conditions };
+}
+
+function toToolConfig(macro: MacroDefinition, conditions: Array<Condition | undefined>, source: string): ToolConfig {
+  const schema = buildInputSchema(macro.input);
+
+  return {
+    name: macro.name,
+    description: macro.description,
+    schema,
+    outputSchema: MacroOutputSchema,
+    handler: async (args, context = NO_OP_CONTEXT) => runMacro(macro, schema.parse(args ?? {}), conditions, context),
+    metadata: {
+      category: macro.category,
+      isReadOnly: macro.readOnly,
+      cacheable: false, // Os passos já passam pelo cache individualmente
+      macro: path.basename(source)
+    }
+  };
+}
+
+/**
+ * First cycle reachable from a macro, as a list of names
+ */
+function findCycle(start: string, pending: Map<string, { macro: MacroDefinition }>): string[] {
+  const chain = [start];
+  let current = start;
+
+  while (true) {
+    const next = pending.get(current)!.macro.steps.map(step => step.tool).find(tool => pending.has(tool))!;
+    const seen = chain.indexOf(next);
+    if (seen >= 0) return [...chain.slice(seen), next];
+    chain.push(next);
+    current = next;
+  }
+}
+
+/**
+ * Load and register the macros in config.macros.dir; a broken macro is
+ * reported and skipped without affecting the others
+ */
+export async function loadMacros(): Promise<MacroLoadReport> {
+  const report: MacroLoadReport = { loaded: [], failed: [] };
+  if (!macrosConfig.enabled) {
+    return report;
+  }
+
+  const dir = path.resolve(macrosConfig.dir);
+  let files: string[];
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    files = entries
+      .filter(entry => entry.isFile() && /\.(ya?ml|json)$/.test(entry.name))
+      .map(entry => path.join(dir, entry.name))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return report;
+    }
+    throw error;
+  }
+
+  const fail = (source: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    report.failed.push({ source, error: message });
+    logger.warn(`Falha ao carregar macro de ${source}: ${message}`);
+  };
+
+  // Validar todas as definições antes de registrar qualquer uma
+  const pending = new Map<string, { macro: MacroDefinition; conditions: Array<Condition | undefined>; source: string }>();
+  for (const file of files) {
+    let definitions: unknown[];
+    try {
+      definitions = await readMacroFile(file);
+    } catch (error) {
+      fail(file, error);
+      continue;
+    }
+
+    for (const [index, raw] of definitions.entries()) {
+      const source = definitions.length > 1 ? `${file}#${(raw as any)?.name ?? index}` : file;
+      try {
+        const parsed = parseMacro(raw);
+        const name = parsed.macro.name;
+        if (ToolFactory.get(name)) {
+          throw new Error(`Ferramenta ${name} já registrada`);
+        }
+        if (pending.has(name)) {
+          throw new Error(`Macro ${name} já definida em ${pending.get(name)!.source}`);
+        }
+        pending.set(name, { ...parsed, source });
+      } catch (error) {
+        fail(source, error);
+      }
+    }
+  }
+
+  // Registrar em ordem de dependência: uma macro só entra depois das macros que ela chama
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const [name, entry] of pending) {
+      const tools = entry.macro.steps.map(step => step.tool);
+      const unknown = tools.find(tool => !ToolFactory.get(tool) && !pending.has(tool));
+      if (unknown) {
+        pending.delete(name);
+        fail(entry.source, new Error(`Macro ${name} chama a ferramenta desconhecida ${unknown}`));
+        progress = true;
+        continue;
+      }
+      if (tools.some(tool => pending.has(tool))) {
+        continue;
+      }
+
+      pending.delete(name);
+      progress = true;
+      ToolFactory.register(toToolConfig(entry.macro, entry.conditions, entry.source));
+      if (!ToolFactory.get(name)) {
+        logger.debug(`Macro ${name} ignorada: categoria ${entry.macro.category} desativada`);
+        continue;
+      }
+
+      const loaded: LoadedMacro = { name, source: entry.source, steps: entry.macro.steps.length };
+      loadedMacros.set(name, loaded);
+      report.loaded.push(loaded);
+      logger.info(`Macro ${name} carregada com ${loaded.steps} passos`, { source: entry.source });
+    }
+  }
+
+  // O que sobrou depende de um ciclo entre macros
+  for (const [name, entry] of pending) {
+    fail(entry.source, new Error(`Macro ${name} faz parte de (ou chama) um ciclo: ${findCycle(name, pending).join(' → ')}`));
+  }
+
+  return report;
+}
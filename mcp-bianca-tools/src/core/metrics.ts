@@ -0,0 +1,210 @@
+/**
+ * Metrics registry for BiancaTools
+ *
+ * Keeps bounded latency histograms per tool, failure counts by ErrorCode and
+ * gauges registered by other modules (browser, HTTP sessions). Exposed as a
+ * JSON snapshot and as OpenMetrics text.
+ */
+
+// Limites dos buckets em milissegundos
+const BUCKET_BOUNDS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+// Amostras mantidas por ferramenta para calcular percentis
+const RESERVOIR_SIZE = 1024;
+
+// ==================== Histogram ====================
+
+class LatencyHistogram {
+  private buckets = new Array<number>(BUCKET_BOUNDS_MS.length).fill(0);
+  private samples: number[] = [];
+  private next = 0;
+  count = 0;
+  sum = 0;
+
+  observe(durationMs: number): void {
+    this.count++;
+    this.sum += durationMs;
+
+    const index = BUCKET_BOUNDS_MS.findIndex(bound => durationMs <= bound);
+    if (index >= 0) this.buckets[index]!++;
+
+    // Buffer circular: percentis refletem as chamadas mais recentes
+    if (this.samples.length < RESERVOIR_SIZE) {
+      this.samples.push(durationMs);
+    } else {
+      this.samples[this.next] = durationMs;
+      this.next = (this.next + 1) % RESERVOIR_SIZE;
+    }
+  }
+
+  percentile(p: number): number {
+    if (this.samples.length === 0) return 0;
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length) - 1;
+    return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)]!;
+  }
+
+  /**
+   * Cumulative bucket counts, as OpenMetrics expects
+   */
+  cumulativeBuckets(): Array<{ le: number; count: number }> {
+    let running = 0;
+    return BUCKET_BOUNDS_MS.map((bound, i) => {
+      running += this.buckets[i]!;
+      return { le: bound, count: running };
+    });
+  }
+}
+
+// ==================== Registry ====================
+
+interface ToolSeries {
+  histogram: LatencyHistogram;
+  successful: number;
+  failed: number;
+  errorsByCode: Record<string, number>;
+}
+
+export interface ToolMetricsSnapshot {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  averageResponseTime: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  errorsByCode: Record<string, number>;
+}
+
+export interface MetricsSnapshot {
+  tools: Record<string, ToolMetricsSnapshot>;
+  errorsByCode: Record<string, number>;
+  gauges: Record<string, number>;
+}
+
+type GaugeCollector = () => number | Promise<number>;
+
+const toolSeries = new Map<string, ToolSeries>();
+const gauges = new Map<string, { help: string; collect: GaugeCollector }>();
+
+function seriesFor(toolName: string): ToolSeries {
+  let series = toolSeries.get(toolName);
+  if (!series) {
+    series = { histogram: new LatencyHistogram(), successful: 0, failed: 0, errorsByCode: {} };
+    toolSeries.set(toolName, series);
+  }
+  return series;
+}
+
+/**
+ * Record the outcome of one tool call
+ */
+export function observeToolCall(toolName: string, durationMs: number, errorCode?: string): void {
+  const series = seriesFor(toolName);
+  series.histogram.observe(durationMs);
+
+  if (errorCode) {
+    series.failed++;
+    series.errorsByCode[errorCode] = (series.errorsByCode[errorCode] ?? 0) + 1;
+  } else {
+    series.successful++;
+  }
+}
+
+/**
+ * Register a gauge read on every snapshot; names follow OpenMetrics (snake_case)
+ */
+export function registerGauge(name: string, help: string, collect: GaugeCollector): void {
+  gauges.set(name, { help, collect });
+}
+
+/**
+ * Metrics of a single tool, or null if it never ran
+ */
+export function getToolMetrics(toolName: string): ToolMetricsSnapshot | null {
+  const series = toolSeries.get(toolName);
+  if (!series) return null;
+
+  const { histogram } = series;
+  return {
+    totalRequests: histogram.count,
+    successfulRequests: series.successful,
+    failedRequests: series.failed,
+    averageResponseTime: histogram.count > 0 ? Math.round(histogram.sum / histogram.count) : 0,
+    p50: histogram.percentile(50),
+    p95: histogram.percentile(95),
+    p99: histogram.percentile(99),
+    errorsByCode: { ...series.errorsByCode }
+  };
+}
+
+async function collectGauges(): Promise<Record<string, number>> {
+  const values: Record<string, number> = {};
+  for (const [name, gauge] of gauges) {
+    try {
+      values[name] = await gauge.collect();
+    } catch {
+      values[name] = NaN;
+    }
+  }
+  return values;
+}
+
+/**
+ * Snapshot of every tool series and gauge
+ */
+export async function getMetricsSnapshot(): Promise<MetricsSnapshot> {
+  const tools: Record<string, ToolMetricsSnapshot> = {};
+  const errorsByCode: Record<string, number> = {};
+
+  for (const name of toolSeries.keys()) {
+    const metrics = getToolMetrics(name)!;
+    tools[name] = metrics;
+    for (const [code, count] of Object.entries(metrics.errorsByCode)) {
+      errorsByCode[code] = (errorsByCode[code] ?? 0) + count;
+    }
+  }
+
+  return { tools, errorsByCode, gauges: await collectGauges() };
+}
+
+// ==================== OpenMetrics ====================
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+/**
+ * Render every metric in the OpenMetrics text format
+ */
+export async function renderOpenMetrics(): Promise<string> {
+  const lines: string[] = [];
+
+  lines.push('# TYPE bianca_tool_duration_seconds histogram');
+  lines.push('# UNIT bianca_tool_duration_seconds seconds');
+  lines.push('# HELP bianca_tool_duration_seconds Tool call latency.');
+  for (const [name, series] of toolSeries) {
+    const tool = `tool="${escapeLabel(name)}"`;
+    for (const { le, count } of series.histogram.cumulativeBuckets()) {
+      lines.push(`bianca_tool_duration_seconds_bucket{${tool},le="${le / 1000}"} ${count}`);
+    }
+    lines.push(`bianca_tool_duration_seconds_bucket{${tool},le="+Inf"} ${series.histogram.count}`);
+    lines.push(`bianca_tool_duration_seconds_count{${tool}} ${series.histogram.count}`);
+    lines.push(`bianca_tool_duration_seconds_sum{${tool}} ${series.histogram.sum / 1000}`);
+  }
+
+  lines.push('# TYPE bianca_tool_errors counter');
+  lines.push('# HELP bianca_tool_errors Failed tool calls by error code.');
+  for (const [name, series] of toolSeries) {
+    for (const [code, count] of Object.entries(series.errorsByCode)) {
+      lines.push(`bianca_tool_errors_total{tool="${escapeLabel(name)}",code="${escapeLabel(code)}"} ${count}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(await collectGauges())) {
+    lines.push(`# TYPE ${name} gauge`);
+    lines.push(`# HELP ${name} ${gauges.get(name)!.help}`);
+    lines.push(`${name} ${value}`);
+  }
+
+  lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
@@ -2,13 +2,26 @@
  * Middleware system for BiancaTools
  */
 
-import { ToolName, MCPError, ErrorCode } from './types.js';
+import { ToolName, MCPError, ErrorCode, ToolExecutionContext } from './types.js';
+import { toMCPError } from './errors.js';
+import { ToolFactory } from './factory.js';
+import { TokenBucketLimiter, BucketLimit, RateLimitKey } from './rate-limiter.js';
+import { resultCache, getPageState, invalidatePageCache } from './cache.js';
+import { ekyteConfig } from '../config/index.js';
+import {
+  observeToolCall,
+  getToolMetrics,
+  getMetricsSnapshot,
+  MetricsSnapshot,
+  ToolMetricsSnapshot
+} from './metrics.js';
 
 // ==================== Types ====================
 
 export interface ToolContext {
   toolName: ToolName;
   args: any;
+  execution?: ToolExecutionContext;
   startTime: number;
   metadata: Map<string, any>;
 }
@@ -23,7 +36,7 @@ export type Middleware = (
   next: () => Promise<ToolResponse>
 ) => Promise<ToolResponse>;
 
-export type ToolHandler = (args: any) => Promise<ToolResponse>;
+export type ToolHandler = (args: any, context?: ToolExecutionContext) => Promise<ToolResponse>;
 
 // ==================== Middleware Implementation ====================
 
@@ -38,12 +51,21 @@ export class MiddlewareManager {
   }
   
   /**
-   * Compose middlewares and handler
+   * Compose middlewares and handler for a given tool
    */
-  compose(handler: ToolHandler): ToolHandler {
-    return async (args: any) => {
+  compose(toolName: ToolName, handler: ToolHandler): ToolHandler {
+    return async (args: any, execution?: ToolExecutionContext) => {
       let index = -1;
       
+      // One context per call, shared by every middleware in the chain
+      const ctx: ToolContext = {
+        toolName,
+        args,
+        execution,
+        startTime: Date.now(),
+        metadata: new Map()
+      };
+      
       const dispatch = async (i: number): Promise<ToolResponse> => {
         if (i <= index) {
           throw new Error('next() called multiple times');
@@ -52,19 +74,13 @@ export class MiddlewareManager {
         index = i;
         
         if (i === this.middlewares.length) {
-          return handler(args);
+          return handler(args, execution);
         }
         
         const middleware = this.middlewares[i];
         if (!middleware) {
           throw new Error('Middleware not found');
         }
-        const ctx: ToolContext = {
-          toolName: args.toolName,
-          args,
-          startTime: Date.now(),
-          metadata: new Map()
-        };
         
         return middleware(ctx, () => dispatch(i + 1));
       };
@@ -97,42 +113,13 @@ export const loggingMiddleware: Middleware = async (ctx, next) => {
 /**
  * Metrics middleware
  */
-interface Metrics {
-  totalRequests: number;
-  successfulRequests: number;
-  failedRequests: number;
-  averageResponseTime: number;
-  responseTimes: number[];
-}
-
-const metrics: Record<ToolName, Metrics> = {} as Record<ToolName, Metrics>;
-
 export const metricsMiddleware: Middleware = async (ctx, next) => {
-  if (!metrics[ctx.toolName]) {
-    metrics[ctx.toolName] = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      averageResponseTime: 0,
-      responseTimes: []
-    };
-  }
-  
-  const toolMetrics = metrics[ctx.toolName];
-  toolMetrics.totalRequests++;
-  
   try {
     const result = await next();
-    const duration = Date.now() - ctx.startTime;
-    
-    toolMetrics.successfulRequests++;
-    toolMetrics.responseTimes.push(duration);
-    toolMetrics.averageResponseTime = 
-      toolMetrics.responseTimes.reduce((a, b) => a + b, 0) / toolMetrics.responseTimes.length;
-    
+    observeToolCall(ctx.toolName, Date.now() - ctx.startTime);
     return result;
   } catch (error) {
-    toolMetrics.failedRequests++;
+    observeToolCall(ctx.toolName, Date.now() - ctx.startTime, toMCPError(error).code);
     throw error;
   }
 };
@@ -141,34 +128,105 @@ export const metricsMiddleware: Middleware = async (ctx, next) => {
  * Rate limiting middleware
  */
 interface RateLimitConfig {
-  windowMs: number;
-  maxRequests: number;
+  session: BucketLimit | null;
+  categories: Record<string, BucketLimit>;
+  host: BucketLimit | null;
+  hosts: Record<string, BucketLimit>;
+  queue: { enabled: boolean; maxWaitMs: number };
+}
+
+// Tools in these categories always talk to the same host
+const CATEGORY_HOSTS: Record<string, string> = {
+  ekyte: new URL(ekyteConfig.baseUrl).hostname
+};
+
+function targetHost(category: string, args: any): string | undefined {
+  for (const field of ['url', 'targetUrl']) {
+    if (typeof args?.[field] === 'string') {
+      try {
+        return new URL(args[field]).hostname;
+      } catch {
+        // Invalid URLs are reported by the handler's validation
+      }
+    }
+  }
+  return CATEGORY_HOSTS[category];
+}
+
+function rateLimitKeys(config: RateLimitConfig, ctx: ToolContext): RateLimitKey[] {
+  const keys: RateLimitKey[] = [];
+  const category = ToolFactory.get(ctx.toolName)?.metadata?.category ?? 'utility';
+  const sessionId = ctx.execution?.sessionId;
+  const host = targetHost(category, ctx.args);
+
+  if (config.session && sessionId) {
+    keys.push({ scope: 'session', id: sessionId, limit: config.session });
+  }
+  if (config.categories[category]) {
+    keys.push({ scope: 'category', id: category, limit: config.categories[category]! });
+  }
+  const hostLimit = host ? config.hosts[host] ?? config.host : null;
+  if (host && hostLimit) {
+    keys.push({ scope: 'host', id: host, limit: hostLimit });
+  }
+
+  return keys;
+}
+
+function waitForToken(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new MCPError(ErrorCode.CANCELLED, 'Request cancelled while waiting for rate limit'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 export function rateLimitMiddleware(config: RateLimitConfig): Middleware {
-  const requests = new Map<string, number[]>();
+  const limiter = new TokenBucketLimiter();
   
   return async (ctx, next) => {
-    const key = ctx.toolName;
-    const now = Date.now();
-    const windowStart = now - config.windowMs;
-    
-    // Get requests in current window
-    const toolRequests = requests.get(key) || [];
-    const recentRequests = toolRequests.filter(time => time > windowStart);
+    const keys = rateLimitKeys(config, ctx);
+    const deadline = Date.now() + (config.queue.enabled ? config.queue.maxWaitMs : 0);
     
-    if (recentRequests.length >= config.maxRequests) {
-      throw new MCPError(
-        ErrorCode.TIMEOUT,
-        `Rate limit exceeded for ${key}. Max ${config.maxRequests} requests per ${config.windowMs}ms`
-      );
+    // Queue mode waits for the bucket to refill while the deadline allows it
+    for (;;) {
+      const decision = limiter.tryAcquire(keys);
+      if (decision.allowed) {
+        return next();
+      }
+      
+      const { scope, id } = decision.blockedBy!;
+      if (decision.retryAfterMs === undefined) {
+        throw new MCPError(
+          ErrorCode.RATE_LIMITED,
+          `Rate limit exhausted for ${scope} ${id}; this bucket does not refill`,
+          { scope, key: id }
+        );
+      }
+      
+      if (Date.now() + decision.retryAfterMs > deadline) {
+        const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+        throw new MCPError(
+          ErrorCode.RATE_LIMITED,
+          `Rate limit exceeded for ${scope} ${id}. Retry after ${retryAfterSeconds}s`,
+          {
+            retryAfterMs: decision.retryAfterMs,
+            retryAfterSeconds,
+            scope,
+            key: id
+          }
+        );
+      }
+      
+      await waitForToken(decision.retryAfterMs, ctx.execution?.signal);
     }
-    
-    // Add current request
-    recentRequests.push(now);
-    requests.set(key, recentRequests);
-    
-    return next();
   };
 }
 
@@ -196,44 +254,59 @@ export const errorHandlingMiddleware: Middleware = async (_ctx, next) => {
     return await next();
   } catch (error) {
     // Transform errors into MCPError if needed
-    if (!(error instanceof MCPError)) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      throw new MCPError(ErrorCode.UNKNOWN, message, error);
-    }
-    throw error;
+    throw toMCPError(error);
   }
 };
 
+interface CachingConfig {
+  enabled: boolean;
+  ttl: number;
+  tools: Record<string, number>;
+}
+
+// Tools in these categories read or change the shared browser page
+const PAGE_CATEGORIES = ['puppeteer', 'ekyte'];
+
 /**
  * Caching middleware factory
  */
-export function cachingMiddleware(ttl: number = 300000): Middleware {
-  const cache = new Map<string, { data: ToolResponse; expiry: number }>();
-  
+export function cachingMiddleware(config: CachingConfig): Middleware {
   return async (ctx, next) => {
-    // Only cache read operations
-    const readOnlyTools: ToolName[] = [
-      ToolName.PUPPETEER_GET_CONTENT
-    ];
+    if (!config.enabled) {
+      return next();
+    }
     
-    if (!readOnlyTools.includes(ctx.toolName)) {
+    const metadata = ToolFactory.get(ctx.toolName)?.metadata ?? {};
+    const pageScoped = PAGE_CATEGORIES.includes(metadata.category ?? 'utility');
+    
+    // Only cache read operations; anything else touching the page invalidates it
+    if (!(metadata.cacheable ?? metadata.isReadOnly ?? false)) {
+      try {
+        return await next();
+      } finally {
+        if (pageScoped) invalidatePageCache();
+      }
+    }
+    
+    const ttl = config.tools[ctx.toolName] ?? config.ttl;
+    const pageState = pageScoped ? await getPageState(ctx.args, ctx.execution) : '';
+    if (ttl <= 0 || pageState === undefined) {
       return next();
     }
     
-    const cacheKey = `${ctx.toolName}:${JSON.stringify(ctx.args)}`;
-    const cached = cache.get(cacheKey);
+    const cacheKey = `${ctx.toolName}|${pageState}|${JSON.stringify(ctx.args)}`;
+    const cached = resultCache.get(cacheKey);
     
-    if (cached && cached.expiry > Date.now()) {
+    if (cached) {
       ctx.metadata.set('cached', true);
-      return cached.data;
+      return cached;
     }
     
     const result = await next();
     
-    cache.set(cacheKey, {
-      data: result,
-      expiry: Date.now() + ttl
-    });
+    if (!result?.isError) {
+      resultCache.set(cacheKey, result, ttl, pageScoped);
+    }
     
     return result;
   };
@@ -242,9 +315,9 @@ export function cachingMiddleware(ttl: number = 300000): Middleware {
 /**
  * Get metrics for a tool
  */
-export function getMetrics(toolName?: ToolName): Record<string, Metrics> | Metrics | null {
+export async function getMetrics(toolName?: string): Promise<MetricsSnapshot['tools'] | ToolMetricsSnapshot | null> {
   if (toolName) {
-    return metrics[toolName] || null;
+    return getToolMetrics(toolName);
   }
-  return metrics;
-}
\ No newline at end of file
+  return (await getMetricsSnapshot()).tools;
+}
@@ -0,0 +1,139 @@
+/**
+ * Tool execution pipeline for BiancaTools
+ *
+ * Builds the middleware chain declared in config.middleware for each tool and
+ * wraps its handler with it. Composed handlers are cached per tool name.
+ */
+
+import { ToolName, MCPError, ErrorCode, ToolExecutionContext } from './types.js';
+import { ToolFactory } from './factory.js';
+import {
+  Middleware,
+  MiddlewareManager,
+  ToolHandler,
+  loggingMiddleware,
+  metricsMiddleware,
+  rateLimitMiddleware,
+  validationMiddleware,
+  errorHandlingMiddleware,
+  cachingMiddleware
+} from './middleware.js';
+import { untilAborted, withTimeout } from './context.js';
+import { getToolError, toMCPError } from './errors.js';
+import { recordDeniedCall } from './audit.js';
+import { authorizeTool } from './auth.js';
+import { middlewareConfig, cacheConfig, toolsConfig, MiddlewareName } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// ==================== Middleware Registry ====================
+
+const middlewareFactories: Record<MiddlewareName, () => Middleware> = {
+  errorHandling: () => errorHandlingMiddleware,
+  logging: () => loggingMiddleware,
+  metrics: () => metricsMiddleware,
+  rateLimit: () => rateLimitMiddleware(middlewareConfig.rateLimit),
+  validation: () => validationMiddleware,
+  caching: () => cachingMiddleware(cacheConfig)
+};
+
+// Stateful middlewares (rate limit, cache) are shared by every tool chain
+const middlewareInstances = new Map<MiddlewareName, Middleware>();
+
+function getMiddleware(name: MiddlewareName): Middleware {
+  let middleware = middlewareInstances.get(name);
+  if (!middleware) {
+    middleware = middlewareFactories[name]();
+    middlewareInstances.set(name, middleware);
+  }
+  return middleware;
+}
+
+// ==================== Chain Resolution ====================
+
+/**
+ * Category of a tool, taken from its registry metadata
+ */
+export function getToolCategory(toolName: string): string {
+  return ToolFactory.get(toolName)?.metadata?.category ?? 'utility';
+}
+
+/**
+ * Middleware chain for a tool: per-tool, then per-category, then default
+ */
+export function resolveMiddlewareChain(toolName: string): MiddlewareName[] {
+  if (!middlewareConfig.enabled) {
+    return [];
+  }
+
+  const chain = middlewareConfig.tools[toolName]
+    ?? middlewareConfig.categories[getToolCategory(toolName)]
+    ?? middlewareConfig.default;
+
+  return chain.filter(name => name !== 'caching' || cacheConfig.enabled);
+}
+
+// ==================== Pipeline ====================
+
+const pipelines = new Map<string, { handler: ToolHandler; pipeline: ToolHandler }>();
+
+/**
+ * Wrap a tool handler with its configured middleware chain
+ */
+export function createToolPipeline(toolName: string, handler: ToolHandler): ToolHandler {
+  // Plugin reloads replace the handler registered under the same name
+  const cached = pipelines.get(toolName);
+  if (cached && cached.handler === handler) {
+    return cached.pipeline;
+  }
+
+  const manager = new MiddlewareManager();
+  for (const name of resolveMiddlewareChain(toolName)) {
+    manager.use(getMiddleware(name));
+  }
+
+  const pipeline = manager.compose(toolName as ToolName, handler);
+  pipelines.set(toolName, { handler, pipeline });
+  return pipeline;
+}
+
+/**
+ * Call a registered tool through its pipeline, as a nested tools/call would.
+ * The time limit defaults to config.tools.timeouts; a result flagged isError
+ * is rethrown as MCPError
+ */
+export async function invokeTool(
+  toolName: string,
+  args: Record<string, any>,
+  context: ToolExecutionContext,
+  timeoutMs: number | undefined = toolsConfig.timeouts[toolName]
+): Promise<any> {
+  const handler = ToolFactory.get(toolName)?.handler;
+  if (!handler) {
+    throw new MCPError(ErrorCode.NOT_FOUND, `Ferramenta não encontrada: ${toolName}`);
+  }
+  // Chamadas aninhadas respeitam a allowlist do token da requisição original
+  try {
+    authorizeTool(context.authTokenId, toolName);
+  } catch (error) {
+    const denied = toMCPError(error);
+    logger.forTool(toolName).warn(`Chamada aninhada negada: ${denied.message}`, { token: context.authTokenId });
+    await recordDeniedCall({
+      sessionId: context.sessionId ?? 'local',
+      requestId: context.requestId ?? '',
+      ...(context.authTokenId ? { token: context.authTokenId } : {}),
+      tool: toolName,
+      args
+    }, denied);
+    throw denied;
+  }
+
+  const signal = timeoutMs ? withTimeout(context.signal, timeoutMs) : context.signal;
+  const result = await untilAborted(createToolPipeline(toolName, handler)(args, { ...context, signal }), signal);
+
+  if (result?.isError) {
+    // Resultados de toolErrorResult guardam o erro original; os demais só têm o texto
+    const text = (result.content ?? []).find((block: any) => block.type === 'text')?.text;
+    throw getToolError(result) ?? new MCPError(ErrorCode.UNKNOWN, text ?? 'Ferramenta retornou erro');
+  }
+  return result;
+}
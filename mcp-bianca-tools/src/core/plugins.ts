@@ -0,0 +1,276 @@
+/**
+ * Plugin loader for BiancaTools
+ *
+ * Discovers third-party tool modules in config.plugins.dir and in the npm
+ * packages listed in config.plugins.packages, validates their exports and
+ * registers their tools in ToolFactory. A plugin module exports (as default
+ * or as named exports) an object like:
+ *
+ *   { name: 'site-pack', version: '1.0.0', tools: [{ name, description, schema, handler, metadata }] }
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { ToolFactory, ToolConfig } from './factory.js';
+import { ToolExecutionContext } from './types.js';
+import { recordToolSnapshot } from './tool-history.js';
+import { pluginsConfig } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// ==================== Plugin Contract ====================
+
+const TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+const isZodSchema = (value: unknown): value is z.ZodTypeAny =>
+  typeof (value as z.ZodTypeAny)?.safeParse === 'function' && !!(value as z.ZodTypeAny)?._def;
+
+const PluginToolSchema = z.object({
+  name: z.string().regex(TOOL_NAME_PATTERN, 'use snake_case (a-z, 0-9, _)'),
+  description: z.string().min(1),
+  schema: z.custom<z.ZodTypeAny>(isZodSchema, 'must be a Zod schema'),
+  handler: z.custom<(args: any, context?: ToolExecutionContext) => Promise<any>>(
+    value => typeof value === 'function',
+    'must be a function'
+  ),
+  metadata: z.object({
+    isReadOnly: z.boolean().optional(),
+    isDestructive: z.boolean().optional(),
+    isIdempotent: z.boolean().optional(),
+    isOpenWorld: z.boolean().optional(),
+    requiresAuth: z.boolean().optional()
+  }).optional()
+});
+
+const PluginSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().optional(),
+  tools: z.array(PluginToolSchema).min(1)
+});
+
+export type PluginTool = z.infer<typeof PluginToolSchema>;
+export type Plugin = z.infer<typeof PluginSchema>;
+
+export interface LoadedPlugin {
+  name: string;
+  version?: string;
+  source: string;
+  tools: string[];
+}
+
+export interface PluginLoadReport {
+  loaded: LoadedPlugin[];
+  failed: Array<{ source: string; error: string }>;
+}
+
+// ==================== State ====================
+
+const loadedPlugins = new Map<string, LoadedPlugin>();
+let lastReport: PluginLoadReport = { loaded: [], failed: [] };
+
+/**
+ * Plugins currently registered
+ */
+export function getLoadedPlugins(): LoadedPlugin[] {
+  return Array.from(loadedPlugins.values());
+}
+
+/**
+ * Result of the last load or reload
+ */
+export function getLastPluginReport(): PluginLoadReport {
+  return lastReport;
+}
+
+// ==================== Discovery ====================
+
+/**
+ * Module specifiers found in the plugin directory and package list
+ */
+async function discoverSources(): Promise<string[]> {
+  const sources: string[] = [];
+  const dir = path.resolve(pluginsConfig.dir);
+
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isFile() && /\.(m?js)$/.test(entry.name)) {
+        sources.push(fullPath);
+      } else if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+        sources.push(fullPath);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  return [...sources, ...pluginsConfig.packages];
+}
+
+/**
+ * Resolve a source to a file URL; the query string bypasses the ESM cache on reload
+ */
+async function resolveSource(source: string): Promise<string> {
+  let filePath: string;
+
+  if (path.isAbsolute(source)) {
+    const stats = await fs.stat(source);
+    if (stats.isDirectory()) {
+      const pkgPath = path.join(source, 'package.json');
+      const pkg = await fs.readFile(pkgPath, 'utf-8').then(JSON.parse).catch(() => ({}));
+      filePath = path.join(source, pkg.main || 'index.js');
+    } else {
+      filePath = source;
+    }
+  } else {
+    // Pacotes npm resolvidos a partir do diretório de trabalho
+    const require = createRequire(path.join(process.cwd(), 'package.json'));
+    filePath = require.resolve(source);
+  }
+
+  return `${pathToFileURL(filePath).href}?v=${Date.now()}`;
+}
+
+/**
+ * Import a plugin module and validate its exports
+ */
+async function importPlugin(source: string): Promise<Plugin> {
+  const mod = await import(await resolveSource(source));
+  const candidate = mod.default && typeof mod.default === 'object' ? mod.default : mod;
+
+  const result = PluginSchema.safeParse(candidate);
+  if (!result.success) {
+    const issues = result.error.errors.map(e => `${e.path.join('.') || 'plugin'}: ${e.message}`);
+    throw new Error(`Plugin inválido: ${issues.join('; ')}`);
+  }
+
+  return result.data;
+}
+
+// ==================== Registration ====================
+
+/**
+ * Registry entry for a plugin tool; arguments are validated before the handler runs
+ */
+function toToolConfig(plugin: Plugin, tool: PluginTool): ToolConfig {
+  return {
+    name: tool.name,
+    description: tool.description,
+    schema: tool.schema,
+    handler: async (args, context) => tool.handler(tool.schema.parse(args), context),
+    metadata: {
+      ...tool.metadata,
+      category: 'plugin',
+      plugin: plugin.name
+    }
+  };
+}
+
+/**
+ * Register every tool of a plugin, or none if any of them conflicts
+ */
+function registerPlugin(plugin: Plugin, source: string): LoadedPlugin {
+  if (loadedPlugins.has(plugin.name)) {
+    throw new Error(`Plugin ${plugin.name} já foi carregado de ${loadedPlugins.get(plugin.name)!.source}`);
+  }
+
+  const names = plugin.tools.map(tool => tool.name);
+  const duplicated = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicated) {
+    throw new Error(`Ferramenta ${duplicated} declarada mais de uma vez`);
+  }
+
+  const conflict = names.find(name => ToolFactory.get(name));
+  if (conflict) {
+    const owner = ToolFactory.get(conflict)?.metadata?.plugin;
+    throw new Error(`Ferramenta ${conflict} já registrada${owner ? ` pelo plugin ${owner}` : ''}`);
+  }
+
+  for (const tool of plugin.tools) {
+    ToolFactory.register(toToolConfig(plugin, tool));
+  }
+
+  const loaded: LoadedPlugin = { name: plugin.name, version: plugin.version, source, tools: names };
+  loadedPlugins.set(plugin.name, loaded);
+  return loaded;
+}
+
+function unregisterAll(): void {
+  for (const plugin of loadedPlugins.values()) {
+    for (const name of plugin.tools) {
+      ToolFactory.unregister(name);
+    }
+  }
+  loadedPlugins.clear();
+}
+
+// ==================== Public API ====================
+
+type ImportedPlugin = { source: string; plugin?: Plugin; error?: string };
+
+async function importAll(): Promise<ImportedPlugin[]> {
+  if (!pluginsConfig.enabled) {
+    return [];
+  }
+
+  const imported: ImportedPlugin[] = [];
+  for (const source of await discoverSources()) {
+    try {
+      imported.push({ source, plugin: await importPlugin(source) });
+    } catch (error) {
+      imported.push({ source, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return imported;
+}
+
+/**
+ * Synchronous so tool calls never observe a half-registered plugin set
+ */
+function registerAll(imported: ImportedPlugin[]): PluginLoadReport {
+  const report: PluginLoadReport = { loaded: [], failed: [] };
+
+  for (const { source, plugin, error } of imported) {
+    try {
+      if (!plugin) {
+        throw new Error(error);
+      }
+      const loaded = registerPlugin(plugin, source);
+      report.loaded.push(loaded);
+      logger.info(`Plugin ${plugin.name} carregado com ${loaded.tools.length} ferramentas`, { source });
+    } catch (registerError) {
+      const message = registerError instanceof Error ? registerError.message : String(registerError);
+      report.failed.push({ source, error: message });
+      logger.warn(`Falha ao carregar plugin de ${source}: ${message}`);
+    }
+  }
+
+  lastReport = report;
+  return report;
+}
+
+/**
+ * Discover and register plugins; a failing plugin never prevents the others from loading
+ */
+export async function loadPlugins(): Promise<PluginLoadReport> {
+  return registerAll(await importAll());
+}
+
+/**
+ * Load plugins again, swap them in and notify connected clients
+ */
+export async function reloadPlugins(): Promise<PluginLoadReport> {
+  const imported = await importAll();
+
+  unregisterAll();
+  const report = registerAll(imported);
+  ToolFactory.notifyListChanged();
+
+  await recordToolSnapshot().catch(error => logger.warn('Falha ao gravar o histórico de ferramentas', error));
+  return report;
+}
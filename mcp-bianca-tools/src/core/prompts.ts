@@ -0,0 +1,120 @@
+/**
+ * MCP prompts generated from the evolutionary skill database
+ *
+ * Every registered skill is published as a prompt whose messages carry the
+ * execution plan built by EvolutionaryLearningSystem.generateExecutionPlan.
+ */
+
+import { EventEmitter } from 'events';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  Prompt,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { MCPError, ErrorCode } from './types.js';
+import { isCapabilityAllowed, authorizeCapability } from './auth.js';
+import { runInSession, SessionScope } from './context.js';
+import {
+  evolutionaryLearningSystem,
+  EvolutionarySkill
+} from './evolutionary-learning-system.js';
+
+// ==================== Events ====================
+
+/**
+ * Emits 'list_changed' whenever the skill database changes
+ */
+export const promptEvents = new EventEmitter();
+promptEvents.setMaxListeners(0); // Um listener por sessão conectada
+
+for (const event of ['skill:registered', 'system:evolved']) {
+  evolutionaryLearningSystem.on(event, () => promptEvents.emit('list_changed'));
+}
+
+// ==================== Prompt Building ====================
+
+function skillToPrompt(skill: EvolutionarySkill): Prompt {
+  return {
+    name: skill.id,
+    description: `${skill.description} (${skill.difficulty})`,
+    arguments: [
+      {
+        name: 'context',
+        description: `URL ou contexto onde executar a habilidade (padrão: ${skill.context})`,
+        required: false
+      },
+      {
+        name: 'trigger',
+        description: `Intenção que motivou a execução. Gatilhos conhecidos: ${skill.triggers.join(', ')}`,
+        required: false
+      }
+    ]
+  };
+}
+
+function buildPromptText(skill: EvolutionarySkill, args: Record<string, string>): string {
+  const context = args.context || skill.context;
+  const plan = evolutionaryLearningSystem.generateExecutionPlan({ ...skill, context });
+
+  const lines = [
+    `Execute a habilidade "${skill.name}": ${skill.description}`,
+    '',
+    `Contexto: ${context}`
+  ];
+
+  if (args.trigger) {
+    lines.push(`Intenção: ${args.trigger}`);
+  }
+
+  lines.push('', 'Plano de execução:', ...plan.map((step, i) => `${i + 1}. ${step}`));
+
+  if (skill.selectors.length > 0) {
+    lines.push('', 'Seletores conhecidos:', ...skill.selectors.map(selector => `- ${selector}`));
+  }
+
+  return lines.join('\n');
+}
+
+// ==================== Handlers ====================
+
+/**
+ * Register the prompts capability handlers on a server; scopeOf tells the
+ * session and token behind each request
+ */
+export function registerPromptHandlers(
+  server: Server,
+  scopeOf: (extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => SessionScope
+): void {
+  // Tokens sem 'prompts' na allowlist não veem nem leem prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+    if (!isCapabilityAllowed(extra.authInfo?.clientId, 'prompts')) {
+      return { prompts: [] };
+    }
+    const skills = await evolutionaryLearningSystem.getSkills();
+    return { prompts: skills.map(skillToPrompt) };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, (request, extra) => runInSession(scopeOf(extra), async () => {
+    authorizeCapability(extra.authInfo?.clientId, 'prompts');
+    const skill = await evolutionaryLearningSystem.getSkill(request.params.name);
+
+    if (!skill) {
+      throw new MCPError(ErrorCode.NOT_FOUND, `Prompt não encontrado: ${request.params.name}`);
+    }
+
+    return {
+      description: skill.description,
+      messages: [{
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: buildPromptText(skill, request.params.arguments ?? {})
+        }
+      }]
+    };
+  }));
+}
@@ -0,0 +1,96 @@
+/**
+ * Token-bucket rate limiter for BiancaTools
+ *
+ * A call takes one token from each bucket that applies to it: its client
+ * session, its tool category and the hostname it targets. Either every bucket
+ * has a token or none is consumed, and the caller learns how long to wait.
+ */
+
+export interface BucketLimit {
+  capacity: number;        // Burst máximo
+  refillPerSecond: number; // Tokens devolvidos por segundo
+}
+
+export interface RateLimitKey {
+  scope: 'session' | 'category' | 'host';
+  id: string;
+  limit: BucketLimit;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs?: number; // Ausente quando o bucket que bloqueou nunca é reabastecido
+  blockedBy?: { scope: RateLimitKey['scope']; id: string };
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: BucketLimit;
+}
+
+// Acima disso, buckets cheios (sem uso recente) são descartados
+const MAX_BUCKETS = 1000;
+
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Take one token from every bucket, or none when any of them is empty
+   */
+  tryAcquire(keys: RateLimitKey[], now: number = Date.now()): RateLimitDecision {
+    const buckets = keys.map(key => ({ key, bucket: this.refill(key, now) }));
+
+    let decision: RateLimitDecision = { allowed: true, retryAfterMs: 0 };
+    for (const { key, bucket } of buckets) {
+      if (bucket.tokens >= 1) continue;
+
+      const retryAfterMs = key.limit.refillPerSecond > 0
+        ? Math.ceil(((1 - bucket.tokens) / key.limit.refillPerSecond) * 1000)
+        : undefined;
+      // Reportar o bucket que demora mais; um que nunca reabastece bloqueia de vez
+      if (!decision.allowed && (decision.retryAfterMs === undefined ||
+          (retryAfterMs !== undefined && retryAfterMs <= decision.retryAfterMs))) continue;
+
+      decision = {
+        allowed: false,
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+        blockedBy: { scope: key.scope, id: key.id }
+      };
+    }
+
+    if (decision.allowed) {
+      buckets.forEach(({ bucket }) => bucket.tokens -= 1);
+    }
+    return decision;
+  }
+
+  private refill(key: RateLimitKey, now: number): Bucket {
+    const id = `${key.scope}:${key.id}`;
+    let bucket = this.buckets.get(id);
+
+    if (!bucket) {
+      this.prune(now);
+      bucket = { tokens: key.limit.capacity, updatedAt: now, limit: key.limit };
+      this.buckets.set(id, bucket);
+      return bucket;
+    }
+
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(key.limit.capacity, bucket.tokens + elapsed * key.limit.refillPerSecond);
+    bucket.updatedAt = now;
+    bucket.limit = key.limit;
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    if (this.buckets.size < MAX_BUCKETS) return;
+
+    for (const [id, bucket] of this.buckets) {
+      const elapsed = (now - bucket.updatedAt) / 1000;
+      if (bucket.tokens + elapsed * bucket.limit.refillPerSecond >= bucket.limit.capacity) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
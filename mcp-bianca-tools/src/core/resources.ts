@@ -0,0 +1,313 @@
+/**
+ * MCP resources for BiancaTools
+ *
+ * Publishes screenshots written by the Puppeteer tools, the workspace skill
+ * databases and recent log output, so clients can read them by URI instead of
+ * guessing file paths. Screenshots and log entries belong to the MCP session
+ * that produced them and are only shown to it.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { MCPError, ErrorCode } from './types.js';
+import { isCapabilityAllowed, authorizeCapability, isVisibleTo } from './auth.js';
+import { currentSession, runInSession, sessionEvents, SessionScope } from './context.js';
+import { resourcesConfig } from '../config/index.js';
+import { getRecentLogs } from '../utils/logger.js';
+
+// ==================== Types ====================
+
+interface ScreenshotEntry {
+  name: string;
+  session?: string; // Sessão MCP e token que gravaram o arquivo
+  token?: string;
+  path: string;
+  pageUrl?: string;
+  createdAt: string;
+}
+
+// ==================== Events ====================
+
+/**
+ * Emits 'list_changed' whenever the set of listed resources changes
+ */
+export const resourceEvents = new EventEmitter();
+resourceEvents.setMaxListeners(0); // Um listener por sessão conectada
+
+// ==================== Screenshot Registry ====================
+
+// Chave: token, sessão e nome do arquivo; sessões diferentes podem repetir o nome
+const screenshots = new Map<string, ScreenshotEntry>();
+
+const screenshotKey = (name: string, session?: string, token?: string) => `${token ?? ''}|${session ?? ''}|${name}`;
+
+/**
+ * Register a screenshot written to disk so it is served as screenshot://{name}
+ * to the session that took it
+ */
+export function registerScreenshot(filePath: string, pageUrl?: string): string {
+  const name = path.basename(filePath);
+  const scope = currentSession();
+
+  screenshots.set(screenshotKey(name, scope?.sessionId, scope?.tokenId), {
+    name,
+    ...(scope ? { session: scope.sessionId } : {}),
+    ...(scope?.tokenId ? { token: scope.tokenId } : {}),
+    path: path.resolve(filePath),
+    pageUrl,
+    createdAt: new Date().toISOString()
+  });
+
+  resourceEvents.emit('list_changed');
+  return `screenshot://${encodeURIComponent(name)}`;
+}
+
+// Sessão MCP encerrada: esquecer os screenshots dela (o arquivo fica no disco).
+// Só ela os via, então as demais sessões não precisam ser avisadas
+sessionEvents.on('closed', (sessionId: string) => {
+  for (const [key, entry] of screenshots) {
+    if (entry.session === sessionId) screenshots.delete(key);
+  }
+});
+
+// ==================== Skill Databases ====================
+
+const SKILLS_SUFFIX = '-skills.json';
+
+function workspaceDir(): string {
+  return path.resolve(process.cwd(), resourcesConfig.workspaceDir);
+}
+
+async function listSkillDatabases(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(workspaceDir());
+    return files
+      .filter(file => file.endsWith(SKILLS_SUFFIX))
+      .map(file => file.slice(0, -SKILLS_SUFFIX.length));
+  } catch {
+    return [];
+  }
+}
+
+async function readSkillDatabase(database: string): Promise<any> {
+  if (database !== path.basename(database)) {
+    throw new MCPError(ErrorCode.INVALID_PARAMS, `Banco de habilidades inválido: ${database}`);
+  }
+
+  try {
+    const content = await fs.readFile(path.join(workspaceDir(), `${database}${SKILLS_SUFFIX}`), 'utf-8');
+    return JSON.parse(content);
+  } catch {
+    throw new MCPError(ErrorCode.NOT_FOUND, `Banco de habilidades não encontrado: ${database}`);
+  }
+}
+
+/**
+ * Skill count per difficulty for every *-skills.json database
+ */
+export async function getSkillDatabaseStats(): Promise<Record<string, {
+  version?: string;
+  lastUpdated?: string;
+  totalSkills: number;
+  skillsByDifficulty: Record<string, number>;
+}>> {
+  const stats: Record<string, any> = {};
+
+  for (const database of await listSkillDatabases()) {
+    const db = await readSkillDatabase(database).catch(() => null);
+    const skills = Object.values<any>(db?.skills ?? {});
+    const skillsByDifficulty: Record<string, number> = {};
+    for (const skill of skills) {
+      const difficulty = skill?.difficulty ?? 'unknown';
+      skillsByDifficulty[difficulty] = (skillsByDifficulty[difficulty] ?? 0) + 1;
+    }
+
+    stats[database] = {
+      ...(db?.version ? { version: db.version } : {}),
+      ...(db?.lastUpdated ? { lastUpdated: db.lastUpdated } : {}),
+      totalSkills: skills.length,
+      skillsByDifficulty
+    };
+  }
+
+  return stats;
+}
+
+async function findSkill(id: string): Promise<{ database: string; skill: any } | null> {
+  for (const database of await listSkillDatabases()) {
+    const db = await readSkillDatabase(database).catch(() => null);
+    const skill = db?.skills?.[id];
+    if (skill) {
+      return { database, skill };
+    }
+  }
+  return null;
+}
+
+// ==================== Helpers ====================
+
+function mimeTypeFor(filePath: string): string {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.jpg':
+    case '.jpeg':
+      return 'image/jpeg';
+    case '.webp':
+      return 'image/webp';
+    default:
+      return 'image/png';
+  }
+}
+
+function jsonContents(uri: string, data: unknown) {
+  return {
+    contents: [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+}
+
+// ==================== Handlers ====================
+
+async function listResources(scope: SessionScope): Promise<Resource[]> {
+  const resources: Resource[] = [];
+
+  for (const entry of screenshots.values()) {
+    if (!isVisibleTo(entry, scope)) continue;
+    resources.push({
+      uri: `screenshot://${encodeURIComponent(entry.name)}`,
+      name: entry.name,
+      description: entry.pageUrl ? `Screenshot de ${entry.pageUrl} (${entry.createdAt})` : `Screenshot (${entry.createdAt})`,
+      mimeType: mimeTypeFor(entry.path)
+    });
+  }
+
+  for (const database of await listSkillDatabases()) {
+    resources.push({
+      uri: `skills://${database}`,
+      name: `${database}${SKILLS_SUFFIX}`,
+      description: `Banco de habilidades "${database}"`,
+      mimeType: 'application/json'
+    });
+  }
+
+  resources.push({
+    uri: 'log://recent',
+    name: 'Logs recentes',
+    description: `Últimas ${resourcesConfig.logLimit} entradas de log do servidor`,
+    mimeType: 'application/json'
+  });
+
+  return resources;
+}
+
+async function readResource(uri: string, scope: SessionScope) {
+  const match = uri.match(/^([a-z]+):\/\/(.+)$/);
+  if (!match) {
+    throw new MCPError(ErrorCode.INVALID_PARAMS, `URI de recurso inválida: ${uri}`);
+  }
+
+  const [, scheme, rawId] = match;
+  const id = decodeURIComponent(rawId ?? '');
+
+  switch (scheme) {
+    case 'screenshot': {
+      const entry = screenshots.get(screenshotKey(id, scope.sessionId, scope.tokenId)) ??
+        screenshots.get(screenshotKey(id));
+      if (!entry || !isVisibleTo(entry, scope)) {
+        throw new MCPError(ErrorCode.NOT_FOUND, `Screenshot não encontrado: ${id}`);
+      }
+
+      const data = await fs.readFile(entry.path).catch(() => {
+        throw new MCPError(ErrorCode.NOT_FOUND, `Arquivo de screenshot removido: ${entry.path}`);
+      });
+
+      return {
+        contents: [{
+          uri,
+          mimeType: mimeTypeFor(entry.path),
+          blob: data.toString('base64')
+        }]
+      };
+    }
+
+    case 'skills':
+      return jsonContents(uri, await readSkillDatabase(id));
+
+    case 'skill': {
+      const found = await findSkill(id);
+      if (!found) {
+        throw new MCPError(ErrorCode.NOT_FOUND, `Habilidade não encontrada: ${id}`);
+      }
+      return jsonContents(uri, { database: found.database, ...found.skill });
+    }
+
+    case 'log':
+      if (id !== 'recent') break;
+      return jsonContents(uri, getRecentLogs().filter(entry => isVisibleTo(entry, scope)).slice(-resourcesConfig.logLimit));
+  }
+
+  throw new MCPError(ErrorCode.NOT_FOUND, `Recurso não encontrado: ${uri}`);
+}
+
+/**
+ * Register the resources capability handlers on a server; scopeOf tells the
+ * session and token behind each request
+ */
+export function registerResourceHandlers(
+  server: Server,
+  scopeOf: (extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => SessionScope
+): void {
+  // Tokens sem 'resources' na allowlist não veem nem leem recursos
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    if (!isCapabilityAllowed(extra.authInfo?.clientId, 'resources')) {
+      return { resources: [] };
+    }
+    return { resources: await listResources(scopeOf(extra)) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (_request, extra) => {
+    if (!isCapabilityAllowed(extra.authInfo?.clientId, 'resources')) {
+      return { resourceTemplates: [] };
+    }
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: 'screenshot://{name}',
+          name: 'Screenshot',
+          description: 'Screenshot salvo pelas ferramentas Puppeteer/Ekyte (nome do arquivo)'
+        },
+        {
+          uriTemplate: 'skill://{id}',
+          name: 'Habilidade',
+          description: 'Habilidade individual de qualquer banco *-skills.json',
+          mimeType: 'application/json'
+        },
+        {
+          uriTemplate: 'skills://{database}',
+          name: 'Banco de habilidades',
+          description: 'Banco completo workspace/{database}-skills.json',
+          mimeType: 'application/json'
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    authorizeCapability(extra.authInfo?.clientId, 'resources');
+    const scope = scopeOf(extra);
+    return runInSession(scope, () => readResource(request.params.uri, scope));
+  });
+}
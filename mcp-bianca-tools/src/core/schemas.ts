@@ -1,71 +1,296 @@
 /**
  * Zod schemas for input validation
+ *
+ * Single source for every tool input: handlers validate with these schemas and
+ * ToolFactory generates the advertised JSON Schema from them. Tools whose
+ * results have a stable shape also declare an output schema here.
  */
 
 import { z } from 'zod';
 import { ToolName } from './types.js';
 
+// Path padrão para os agentes
+export const DEFAULT_AGENTS_PATH = '/Users/phiz/Desktop/claude-flow-bianca/claude-bianca-flow/src/agents';
+
 // ==================== Puppeteer Schemas ====================
 
-export const NavigateSchema = z.object({
-  url: z.string().url('URL deve ser válida')
+// Sem sessionId, cada sessão MCP usa o próprio contexto anônimo do browser
+const BrowserSessionSchema = z.object({
+  sessionId: z.string().min(1).max(128).optional()
+    .describe('Browser session to use; defaults to an isolated context for the calling MCP session')
+});
+
+export const NavigateSchema = BrowserSessionSchema.extend({
+  url: z.string().url('URL inválida fornecida').describe('URL to navigate to')
+});
+
+export const ScreenshotSchema = BrowserSessionSchema.extend({
+  path: z.string().min(1, 'Caminho do arquivo é obrigatório').describe('Path to save the screenshot'),
+  fullPage: z.boolean().optional().default(false).describe('Capture full page')
+});
+
+export const ClickSchema = BrowserSessionSchema.extend({
+  selector: z.string().min(1, 'Seletor CSS é obrigatório').describe('CSS selector of element to click')
+});
+
+export const TypeSchema = BrowserSessionSchema.extend({
+  selector: z.string().min(1, 'Seletor CSS é obrigatório').describe('CSS selector of element'),
+  text: z.string().describe('Text to type')
+});
+
+export const GetContentSchema = BrowserSessionSchema;
+
+export const NewTabSchema = BrowserSessionSchema.extend({
+  url: z.string().url('URL inválida fornecida').describe('URL to open in new tab')
+});
+
+export const NavigateAndScreenshotSchema = BrowserSessionSchema.extend({
+  url: z.string().url('URL inválida fornecida').describe('URL to navigate to'),
+  path: z.string().min(1, 'Caminho do arquivo é obrigatório').describe('Path to save the screenshot'),
+  fullPage: z.boolean().optional().default(false).describe('Capture full page')
+});
+
+// ==================== Ekyte Schemas ====================
+
+// Credenciais vêm de um perfil do cofre; email/password diretos são legado
+const EkyteCredentialsSchema = BrowserSessionSchema.extend({
+  profile: z.string().min(1).optional().describe('Credential profile to log in with (see credentials_add)'),
+  email: z.string().min(1, 'Email é obrigatório').optional().describe('Email for login (prefer profile)'),
+  password: z.string().min(1, 'Senha é obrigatória').optional().describe('Password for login (prefer profile)')
+});
+
+export const EkyteLoginSchema = EkyteCredentialsSchema.extend({
+  screenshotPath: z.string().optional().describe('Base path for screenshots (optional)')
+});
+
+export const EkyteLoginAndNavigateSchema = EkyteCredentialsSchema.extend({
+  targetUrl: z.string().url('URL inválida fornecida').describe('URL to navigate after login'),
+  screenshotPath: z.string().min(1).describe('Path to save screenshot'),
+  fullPage: z.boolean().optional().default(true).describe('Capture full page')
 });
 
-export const ScreenshotSchema = z.object({
-  path: z.string().min(1, 'Path é obrigatório'),
-  fullPage: z.boolean().optional().default(false)
+export const EkyteProcessNotificationsSchema = EkyteCredentialsSchema.extend({
+  screenshotPath: z.string().min(1).describe('Base path for screenshots'),
+  maxNotifications: z.number().int().positive().optional().default(5).describe('Maximum notifications to process')
 });
 
-export const ClickSchema = z.object({
-  selector: z.string().min(1, 'Selector é obrigatório')
+export const EkyteExploreSectionSchema = EkyteCredentialsSchema.extend({
+  section: z.enum(['conhecimento', 'atendimento', 'campanhas', 'projetos', 'tarefas', 'publicacoes', 'biblioteca', 'data-driven'])
+    .describe('Section to explore'),
+  screenshotPath: z.string().min(1).describe('Path to save screenshot')
 });
 
-export const TypeSchema = z.object({
-  selector: z.string().min(1, 'Selector é obrigatório'),
-  text: z.string().min(1, 'Text é obrigatório')
+export const EkyteManageTaskSchema = EkyteCredentialsSchema.extend({
+  action: z.enum(['list', 'open', 'comment', 'update_status']).describe('Action to perform'),
+  taskId: z.string().optional().describe('Task ID to open'),
+  comment: z.string().optional().describe('Comment to add'),
+  status: z.string().optional().describe('New status for the task'),
+  screenshotPath: z.string().min(1).describe('Path to save screenshot')
 });
 
-export const GetContentSchema = z.object({});
+export const EkyteAnalyzeMetricsSchema = EkyteCredentialsSchema.extend({
+  screenshotPath: z.string().min(1).describe('Path to save screenshot')
+});
 
-export const NewTabSchema = z.object({
-  url: z.string().url('URL deve ser válida')
+export const EkyteSmartSearchSchema = EkyteCredentialsSchema.extend({
+  searchTerm: z.string().min(1).describe('Search term'),
+  screenshotPath: z.string().min(1).describe('Path to save screenshot')
 });
 
 // ==================== Browser Schemas ====================
 
 export const OpenBrowserSchema = z.object({
-  url: z.string().url('URL deve ser válida')
+  url: z.string().url('URL inválida fornecida').describe('URL to open in default browser')
 });
 
 export const BrowserOpenUrlSchema = z.object({
-  url: z.string().url('URL deve ser válida'),
+  url: z.string().url('URL inválida fornecida').describe('URL para abrir no navegador'),
   browser: z.enum(['default', 'chrome', 'safari', 'firefox']).optional().default('default')
+    .describe('Navegador específico para usar (padrão: navegador padrão do sistema)')
 });
 
 // ==================== Agents Schemas ====================
 
 export const AgentsListSchema = z.object({
-  path: z.string().optional(),
+  path: z.string().default(DEFAULT_AGENTS_PATH).describe('Caminho para buscar agentes'),
   filter: z.object({
-    type: z.enum(['researcher', 'implementer', 'analyst', 'coordinator', 'custom']).optional(),
-    name: z.string().optional(),
-    hasTools: z.array(z.string()).optional()
+    type: z.enum(['researcher', 'implementer', 'analyst', 'coordinator', 'custom']).optional()
+      .describe('Filtrar por tipo de agente'),
+    name: z.string().optional().describe('Filtrar por nome do agente'),
+    hasTools: z.array(z.string()).optional().describe('Filtrar agentes que possuem determinadas ferramentas')
   }).optional()
 });
 
 export const AgentsGetDetailsSchema = z.object({
-  agentFile: z.string().min(1, 'Nome do arquivo é obrigatório'),
-  agentName: z.string().optional()
+  agentFile: z.string().min(1, 'Nome do arquivo é obrigatório').describe('Nome do arquivo (ex: "dev-agents.ts")'),
+  agentName: z.string().optional().describe('Nome específico do agente (opcional)')
 });
 
 export const AgentsAnalyzeSchema = z.object({
-  agentFile: z.string().min(1, 'Nome do arquivo é obrigatório'),
-  analysisType: z.enum(['dependencies', 'tools', 'structure', 'usage'])
+  agentFile: z.string().min(1, 'Nome do arquivo é obrigatório').describe('Nome do arquivo para analisar'),
+  analysisType: z.enum(['dependencies', 'tools', 'structure', 'usage']).describe('Tipo de análise a realizar')
 });
 
 export const AgentsSearchSchema = z.object({
-  query: z.string().min(1, 'Query de busca é obrigatória'),
-  path: z.string().optional()
+  query: z.string().min(1, 'Query de busca é obrigatória').describe('Termo de busca'),
+  path: z.string().default(DEFAULT_AGENTS_PATH).describe('Caminho personalizado (opcional)')
+});
+
+export const AgentsManageSkillsSchema = z.object({
+  action: z.enum(['discover', 'register', 'list', 'execute', 'evolve', 'analyze_context'])
+    .describe('Ação a ser executada no sistema de habilidades'),
+  skillData: z.object({
+    name: z.string().describe('Nome da habilidade'),
+    description: z.string().describe('Descrição da habilidade'),
+    context: z.string().describe('Contexto onde foi descoberta'),
+    selectors: z.array(z.string()).optional().describe('Seletores CSS necessários'),
+    steps: z.array(z.string()).optional().describe('Passos para executar'),
+    triggers: z.array(z.string()).optional().describe('Palavras-chave que ativam a habilidade'),
+    difficulty: z.enum(['basic', 'intermediate', 'advanced', 'expert']).describe('Nível de dificuldade')
+  }).optional().describe('Dados da habilidade (para register)'),
+  naturalLanguageQuery: z.string().optional()
+    .describe('Query em linguagem natural para executar habilidade (para execute)'),
+  contextData: z.record(z.any()).optional()
+    .describe('Dados do contexto atual da página (para discover/analyze_context)')
+});
+
+// ==================== Plugin Schemas ====================
+
+export const PluginsReloadSchema = z.object({});
+
+// ==================== Batch Schemas ====================
+
+export const BatchCallSchema = z.object({
+  tool: z.string().min(1, 'Nome da ferramenta é obrigatório').describe('Tool to call'),
+  args: z.record(z.any()).optional().default({})
+    .describe('Tool arguments; "{{i.path}}" is replaced by a value from the result of call i (e.g. "{{0.data.currentUrl}}")'),
+  timeoutMs: z.number().int().positive().optional().describe('Time limit for this call in ms')
+});
+
+export const BatchExecuteSchema = z.object({
+  calls: z.array(BatchCallSchema).min(1, 'Informe ao menos uma chamada').max(50).describe('Tool calls, run in order'),
+  mode: z.enum(['stop_on_error', 'continue']).optional().default('stop_on_error')
+    .describe('Stop at the first failed call, or run the remaining ones anyway')
+});
+
+// ==================== Credentials Schemas ====================
+
+const CredentialProfileNameSchema = z.string()
+  .regex(/^[a-zA-Z0-9_.-]+$/, 'Use apenas letras, números, ponto, hífen e sublinhado')
+  .describe('Profile name');
+
+export const CredentialsAddSchema = z.object({
+  profile: CredentialProfileNameSchema,
+  email: z.string().min(1, 'Email é obrigatório').describe('Email for login'),
+  password: z.string().min(1, 'Senha é obrigatória').describe('Password for login'),
+  overwrite: z.boolean().optional().default(false).describe('Replace the profile if it already exists')
+});
+
+export const CredentialsListSchema = z.object({});
+
+export const CredentialsRemoveSchema = z.object({
+  profile: CredentialProfileNameSchema
+});
+
+// ==================== Server Schemas ====================
+
+export const ServerMetricsSchema = z.object({
+  format: z.enum(['json', 'openmetrics']).optional().default('json').describe('Output format'),
+  tool: z.string().optional().describe('Only return metrics for this tool (json format)')
+});
+
+export const ToolsEvolutionSchema = z.object({
+  from: z.number().int().nonnegative().optional().describe('Snapshot id to diff from (default: the one before "to")'),
+  to: z.number().int().positive().optional().describe('Snapshot id to diff to (default: the live registry)'),
+  limit: z.number().int().positive().optional().default(20).describe('Most recent snapshots to list')
+});
+
+export const ServerStatusSchema = z.object({
+  includeConfig: z.boolean().optional().default(true).describe('Include the effective configuration, secrets masked')
+});
+
+// ==================== Output Schemas ====================
+
+const AgentOutputSchema = z.object({
+  name: z.string(),
+  file: z.string(),
+  type: z.string(),
+  tools: z.array(z.string()),
+  description: z.string().optional(),
+  template: z.string().optional()
+});
+
+export const EkyteProcessNotificationsOutputSchema = z.object({
+  totalNotifications: z.number().int().describe('Notifications found on the page'),
+  processedCount: z.number().int(),
+  notifications: z.array(z.object({
+    index: z.number().int(),
+    text: z.string(),
+    screenshot: z.string()
+  })),
+  screenshots: z.object({
+    initial: z.string(),
+    final: z.string()
+  })
+});
+
+export const EkyteAnalyzeMetricsOutputSchema = z.object({
+  metrics: z.object({
+    tickets: z.number(),
+    tasks: z.number(),
+    timeToday: z.array(z.string()).describe('Time indicators shown as percentages'),
+    timestamp: z.string()
+  }),
+  screenshotPath: z.string(),
+  analysisDate: z.string()
+});
+
+export const AgentsListOutputSchema = z.object({
+  agents: z.array(AgentOutputSchema),
+  total: z.number().int(),
+  path: z.string(),
+  filter: AgentsListSchema.shape.filter
+});
+
+export const AgentsSearchOutputSchema = z.object({
+  results: z.array(AgentOutputSchema.extend({ score: z.number() })),
+  total: z.number().int(),
+  query: z.string()
+});
+
+export const AgentsManageSkillsOutputSchema = z.object({
+  action: AgentsManageSkillsSchema.shape.action,
+  result: z.record(z.unknown()).describe('Action result; for list: totalSkills, skillsByDifficulty, availableSkills, expertiseLevel'),
+  timestamp: z.string(),
+  systemVersion: z.string()
+});
+
+export const CredentialsListOutputSchema = z.object({
+  profiles: z.array(z.object({
+    profile: z.string(),
+    email: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string()
+  }))
+});
+
+export const BatchExecuteOutputSchema = z.object({
+  mode: z.enum(['stop_on_error', 'continue']),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  skipped: z.number().int(),
+  steps: z.array(z.object({
+    index: z.number().int(),
+    tool: z.string(),
+    status: z.enum(['success', 'error', 'skipped']),
+    durationMs: z.number(),
+    data: z.unknown().optional(),
+    error: z.object({
+      code: z.string(),
+      message: z.string(),
+      details: z.record(z.unknown()).optional()
+    }).optional()
+  }))
 });
 
 // ==================== Schema Map ====================
@@ -77,14 +302,42 @@ export const ToolSchemas = {
   [ToolName.PUPPETEER_TYPE]: TypeSchema,
   [ToolName.PUPPETEER_GET_CONTENT]: GetContentSchema,
   [ToolName.PUPPETEER_NEW_TAB]: NewTabSchema,
+  [ToolName.PUPPETEER_NAVIGATE_AND_SCREENSHOT]: NavigateAndScreenshotSchema,
   [ToolName.OPEN_BROWSER]: OpenBrowserSchema,
+  [ToolName.EKYTE_LOGIN]: EkyteLoginSchema,
+  [ToolName.EKYTE_LOGIN_AND_NAVIGATE]: EkyteLoginAndNavigateSchema,
+  [ToolName.EKYTE_PROCESS_NOTIFICATIONS]: EkyteProcessNotificationsSchema,
+  [ToolName.EKYTE_EXPLORE_SECTION]: EkyteExploreSectionSchema,
+  [ToolName.EKYTE_MANAGE_TASK]: EkyteManageTaskSchema,
+  [ToolName.EKYTE_ANALYZE_METRICS]: EkyteAnalyzeMetricsSchema,
+  [ToolName.EKYTE_SMART_SEARCH]: EkyteSmartSearchSchema,
   [ToolName.BROWSER_OPEN_URL]: BrowserOpenUrlSchema,
   [ToolName.AGENTS_LIST]: AgentsListSchema,
   [ToolName.AGENTS_GET_DETAILS]: AgentsGetDetailsSchema,
   [ToolName.AGENTS_ANALYZE]: AgentsAnalyzeSchema,
-  [ToolName.AGENTS_SEARCH]: AgentsSearchSchema
+  [ToolName.AGENTS_SEARCH]: AgentsSearchSchema,
+  [ToolName.AGENTS_MANAGE_SKILLS]: AgentsManageSkillsSchema,
+  [ToolName.PLUGINS_RELOAD]: PluginsReloadSchema,
+  [ToolName.BATCH_EXECUTE]: BatchExecuteSchema,
+  [ToolName.CREDENTIALS_ADD]: CredentialsAddSchema,
+  [ToolName.CREDENTIALS_LIST]: CredentialsListSchema,
+  [ToolName.CREDENTIALS_REMOVE]: CredentialsRemoveSchema,
+  [ToolName.SERVER_METRICS]: ServerMetricsSchema,
+  [ToolName.SERVER_STATUS]: ServerStatusSchema,
+  [ToolName.TOOLS_EVOLUTION]: ToolsEvolutionSchema
 } as const;
 
+// Results returned as structuredContent, validated in dev mode (config.tools.validateOutput)
+export const ToolOutputSchemas: Partial<Record<ToolName, z.AnyZodObject>> = {
+  [ToolName.EKYTE_PROCESS_NOTIFICATIONS]: EkyteProcessNotificationsOutputSchema,
+  [ToolName.EKYTE_ANALYZE_METRICS]: EkyteAnalyzeMetricsOutputSchema,
+  [ToolName.AGENTS_LIST]: AgentsListOutputSchema,
+  [ToolName.AGENTS_SEARCH]: AgentsSearchOutputSchema,
+  [ToolName.AGENTS_MANAGE_SKILLS]: AgentsManageSkillsOutputSchema,
+  [ToolName.CREDENTIALS_LIST]: CredentialsListOutputSchema,
+  [ToolName.BATCH_EXECUTE]: BatchExecuteOutputSchema
+};
+
 // ==================== Validation Helper ====================
 
 export function validateToolInput<T extends ToolName>(
@@ -92,7 +345,7 @@ export function validateToolInput<T extends ToolName>(
   input: unknown
 ): z.infer<typeof ToolSchemas[T]> {
   const schema = ToolSchemas[toolName];
-  
+
   try {
     return schema.parse(input);
   } catch (error) {
@@ -106,4 +359,4 @@ export function validateToolInput<T extends ToolName>(
 
 // ==================== Type Inference Helpers ====================
 
-export type InferToolInput<T extends ToolName> = z.infer<typeof ToolSchemas[T]>;
\ No newline at end of file
+export type InferToolInput<T extends ToolName> = z.infer<typeof ToolSchemas[T]>;
@@ -0,0 +1,278 @@
+/**
+ * MCP server factory for BiancaTools
+ *
+ * Each transport connection (stdio or an HTTP session) gets its own Server
+ * instance; all of them share the same tool handlers and browser process.
+ */
+
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel
+} from '@modelcontextprotocol/sdk/types.js';
+import { ToolFactory } from '../tools/index.js';
+import { toolEvents } from './factory.js';
+import { registerResourceHandlers, resourceEvents } from './resources.js';
+import { registerPromptHandlers, promptEvents } from './prompts.js';
+import { createToolPipeline } from './pipeline.js';
+import { createExecutionContext, untilAborted, sessionEvents, runInSession, SessionScope } from './context.js';
+import { toolErrorResult, toMCPError } from './errors.js';
+import { recordToolCall, recordDeniedCall, collectArtifacts, redact } from './audit.js';
+import { authorizeTool, isToolAllowed, isVisibleTo } from './auth.js';
+import { ErrorCode, MCPError } from './types.js';
+import { logger, addLogListener, LogLevel, LogEntry } from '../utils/logger.js';
+import { serverConfig, toolsConfig, loggingConfig } from '../config/index.js';
+
+// Níveis do logger como notifications/message do MCP
+const MCP_LOG_LEVELS: Record<LogEntry['level'], LoggingLevel> = {
+  DEBUG: 'debug',
+  INFO: 'info',
+  WARN: 'warning',
+  ERROR: 'error'
+};
+
+/**
+ * Map an MCP (syslog) level onto the logger's levels
+ */
+function fromMCPLogLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case 'debug': return LogLevel.DEBUG;
+    case 'info':
+    case 'notice': return LogLevel.INFO;
+    case 'warning': return LogLevel.WARN;
+    default: return LogLevel.ERROR;
+  }
+}
+
+/**
+ * Send result.data as structuredContent for tools that declare an output
+ * schema; in dev mode (config.tools.validateOutput) check it against the schema
+ */
+function withStructuredContent(name: string, result: any): any {
+  const outputSchema = ToolFactory.getOutputSchema(name);
+  if (!outputSchema || !result || typeof result !== 'object') {
+    return result;
+  }
+
+  const structuredContent = result.structuredContent ?? result.data;
+  if (toolsConfig.validateOutput && !result.isError) {
+    const parsed = outputSchema.safeParse(structuredContent);
+    if (!parsed.success) {
+      throw new MCPError(
+        ErrorCode.INTERNAL_ERROR,
+        `Resultado de ${name} não corresponde ao outputSchema: ` +
+          parsed.error.errors.map(e => `${e.path.join('.') || 'resultado'}: ${e.message}`).join('; '),
+        { issues: parsed.error.errors.map(e => ({ path: e.path, code: e.code, message: e.message })) }
+      );
+    }
+  }
+
+  return structuredContent && typeof structuredContent === 'object'
+    ? { ...result, structuredContent }
+    : result;
+}
+
+/**
+ * Create a new MCP server with all tool handlers registered; tokenId is the
+ * token that opened the session, if any
+ */
+export function createServer(tokenId?: string): Server {
+  const server = new Server(
+    {
+      name: serverConfig.name,
+      version: serverConfig.version,
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
+        logging: {},
+      },
+    }
+  );
+
+  // Sessões stdio não têm id de transporte; usar um por instância no audit log.
+  // O id da sessão é fixado no initialize, quando o transporte já o conhece
+  const localSessionId = randomUUID();
+  let sessionId: string = localSessionId;
+
+  // Log e screenshots gerados durante uma chamada ficam marcados com sua sessão
+  const scopeOf = (extra: { sessionId?: string; authInfo?: { clientId: string } }): SessionScope => ({
+    sessionId: extra.sessionId ?? localSessionId,
+    ...(extra.authInfo ? { tokenId: extra.authInfo.clientId } : {})
+  });
+
+  registerResourceHandlers(server, scopeOf);
+  registerPromptHandlers(server, scopeOf);
+
+  // Avisar o cliente quando ferramentas, screenshots ou habilidades mudarem
+  const notifyToolsChanged = () => {
+    server.sendToolListChanged().catch(() => undefined);
+  };
+  const notifyResourcesChanged = () => {
+    server.sendResourceListChanged().catch(() => undefined);
+  };
+  const notifyPromptsChanged = () => {
+    server.sendPromptListChanged().catch(() => undefined);
+  };
+  toolEvents.on('list_changed', notifyToolsChanged);
+  resourceEvents.on('list_changed', notifyResourcesChanged);
+  promptEvents.on('list_changed', notifyPromptsChanged);
+
+  // Encaminhar o log ao cliente (após o initialize) a partir do nível pedido em logging/setLevel
+  let clientLogLevel = LogLevel[loggingConfig.level];
+  let initialized = false;
+  server.oninitialized = () => {
+    sessionId = server.transport?.sessionId ?? localSessionId;
+    initialized = true;
+  };
+  const removeLogListener = addLogListener(entry => {
+    if (!initialized || LogLevel[entry.level] < clientLogLevel) return;
+    // Só as entradas desta sessão; as do processo apenas para quem vê tudo
+    if (!isVisibleTo(entry, { sessionId, ...(tokenId ? { tokenId } : {}) })) return;
+    server.sendLoggingMessage({
+      level: MCP_LOG_LEVELS[entry.level],
+      logger: entry.tool ?? serverConfig.name,
+      data: entry.message
+    }).catch(() => undefined);
+  });
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = fromMCPLogLevel(request.params.level);
+    return {};
+  });
+
+  server.onclose = () => {
+    toolEvents.off('list_changed', notifyToolsChanged);
+    resourceEvents.off('list_changed', notifyResourcesChanged);
+    promptEvents.off('list_changed', notifyPromptsChanged);
+    removeLogListener();
+    sessionEvents.emit('closed', sessionId);
+  };
+
+  /**
+   * Handler para listar todas as ferramentas disponíveis
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    // Retorna as ferramentas do registro único que o token da requisição pode chamar
+    const tokenId = extra.authInfo?.clientId;
+    return { tools: ToolFactory.listForMCP().filter(tool => isToolAllowed(tokenId, tool.name)) };
+  });
+
+  /**
+   * Handler para executar ferramentas
+   */
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => runInSession(scopeOf(extra), async () => {
+      const { name, arguments: args } = request.params;
+      const startTime = Date.now();
+      const audit = {
+        sessionId: extra.sessionId ?? localSessionId,
+        requestId: extra.requestId,
+        ...(extra.authInfo ? { token: extra.authInfo.clientId } : {}),
+        tool: name,
+        args: args || {}
+      };
+
+      // Buscar handler da ferramenta
+      const handler = ToolFactory.get(name)?.handler;
+
+      if (!handler) {
+        const message = `Ferramenta não encontrada: ${name}`;
+        await recordToolCall({
+          ...audit,
+          durationMs: 0,
+          outcome: 'error',
+          error: { code: ErrorCode.NOT_FOUND, message },
+          artifacts: []
+        });
+        throw new Error(message);
+      }
+
+      // Tokens só chamam as ferramentas liberadas para eles
+      try {
+        authorizeTool(audit.token, name);
+      } catch (error) {
+        const denied = toMCPError(error);
+        logger.forTool(name).warn(`Chamada negada: ${denied.message}`, { token: audit.token });
+        await recordDeniedCall(audit, denied);
+        return toolErrorResult(name, denied);
+      }
+
+      try {
+        // Log da execução
+        const toolLogger = logger.forTool(name);
+        toolLogger.info('Executando ferramenta', redact(args));
+
+        // Executar handler através do pipeline de middlewares configurado,
+        // limitado pelo timeout da ferramenta (cast para any devido aos tipos diferentes)
+        const context = createExecutionContext(
+          extra,
+          request.params._meta?.progressToken,
+          audit.sessionId,
+          toolsConfig.timeouts[name]
+        );
+        const result: any = withStructuredContent(
+          name,
+          await untilAborted(createToolPipeline(name, handler as any)(args || {}, context), context.signal)
+        );
+
+        toolLogger.debug('Ferramenta executada com sucesso');
+
+        // Registrar no audit log
+        await recordToolCall({
+          ...audit,
+          durationMs: Date.now() - startTime,
+          outcome: result?.isError ? 'error' : 'success',
+          artifacts: collectArtifacts(args, result?.data)
+        });
+
+        // Retornar resultado
+        // O MCP espera que toolResult contenha diretamente o campo content
+        toolLogger.debug('Resultado da ferramenta:', result);
+
+        if (result && result.content) {
+          return result;
+        } else if (result && typeof result === 'object') {
+          // Se não houver content mas for um objeto válido, criar content
+          toolLogger.warn('Resultado sem campo content, criando automaticamente');
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }],
+            ...result  // Preservar outros campos como success, data, etc
+          };
+        } else {
+          // Fallback para resultados simples
+          return {
+            content: [{
+              type: 'text',
+              text: String(result)
+            }]
+          };
+        }
+      } catch (error) {
+        // Tratamento de erro
+        const toolLogger = logger.forTool(name);
+        toolLogger.error('Erro ao executar ferramenta', error as Error, redact(args));
+
+        // Falhas voltam como resultado com código e detalhes estruturados
+        const mcpError = toMCPError(error);
+        await recordToolCall({
+          ...audit,
+          durationMs: Date.now() - startTime,
+          outcome: 'error',
+          error: { code: mcpError.code, message: mcpError.message },
+          artifacts: collectArtifacts(args)
+        });
+
+        return toolErrorResult(name, mcpError);
+      }
+  }));
+
+  return server;
+}
@@ -0,0 +1,234 @@
+/**
+ * Tool registry history for BiancaTools
+ *
+ * A snapshot of the registry (names, categories, input schemas) is appended to
+ * config.toolHistory.file at startup and after plugin reloads, whenever it
+ * differs from the last one. Diffs between snapshots give a changelog of tools
+ * added, removed and changed.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ToolFactory } from './factory.js';
+import { serverConfig, toolHistoryConfig } from '../config/index.js';
+
+export interface ToolFingerprint {
+  category: string;
+  fields: string[];
+  required: string[];
+  schemaHash: string;
+  descriptionHash: string;
+  plugin?: string;
+  macro?: string;
+}
+
+export interface ToolSnapshot {
+  id: number;
+  timestamp: string;
+  version: string;
+  tools: Record<string, ToolFingerprint>;
+}
+
+export interface ToolChange {
+  name: string;
+  category: string;
+  addedFields?: string[];
+  removedFields?: string[];
+  nowRequired?: string[];
+  noLongerRequired?: string[];
+  schemaChanged?: boolean;
+  categoryChanged?: { from: string; to: string };
+  descriptionChanged?: boolean;
+}
+
+export interface ToolDiff {
+  from: { id: number; timestamp: string; version: string } | null;
+  to: { id: number; timestamp: string; version: string };
+  added: Array<{ name: string; category: string }>;
+  removed: Array<{ name: string; category: string }>;
+  changed: ToolChange[];
+}
+
+// Histórico carregado do arquivo; null até a primeira leitura
+let history: ToolSnapshot[] | null = null;
+
+const shortHash = (value: unknown) =>
+  createHash('sha1').update(JSON.stringify(value)).digest('hex').slice(0, 12);
+
+// ==================== Snapshots ====================
+
+/**
+ * Snapshot of the live registry; id 0 marks it as not persisted
+ */
+export function captureToolSnapshot(): ToolSnapshot {
+  const tools: Record<string, ToolFingerprint> = {};
+
+  for (const name of ToolFactory.getNames().sort()) {
+    const definition = ToolFactory.create(name);
+    if (!definition) continue;
+    const metadata = ToolFactory.get(name)?.metadata ?? {};
+
+    tools[name] = {
+      category: metadata.category ?? 'utility',
+      fields: Object.keys(definition.inputSchema.properties ?? {}).sort(),
+      required: [...(definition.inputSchema.required ?? [])].sort(),
+      schemaHash: shortHash(definition.inputSchema),
+      descriptionHash: shortHash(definition.description),
+      ...(metadata.plugin ? { plugin: metadata.plugin } : {}),
+      ...(metadata.macro ? { macro: metadata.macro } : {})
+    };
+  }
+
+  return { id: 0, timestamp: new Date().toISOString(), version: serverConfig.version, tools };
+}
+
+/**
+ * Persisted snapshots, oldest first; malformed lines are skipped
+ */
+export async function getToolHistory(): Promise<ToolSnapshot[]> {
+  if (history) return history;
+
+  try {
+    const content = await fs.readFile(toolHistoryConfig.file, 'utf-8');
+    history = content
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as ToolSnapshot];
+        } catch {
+          return [];
+        }
+      });
+  } catch {
+    history = [];
+  }
+  return history;
+}
+
+/**
+ * Snapshots already loaded in memory (empty before recordToolSnapshot runs)
+ */
+export function getLoadedToolHistory(): ToolSnapshot[] {
+  return history ?? [];
+}
+
+/**
+ * Append a snapshot of the registry if it differs from the last one
+ */
+export async function recordToolSnapshot(): Promise<ToolSnapshot | null> {
+  if (!toolHistoryConfig.enabled) return null;
+
+  const snapshots = await getToolHistory();
+  const last = snapshots[snapshots.length - 1];
+  const snapshot = captureToolSnapshot();
+
+  if (last && last.version === snapshot.version && !hasChanges(diffSnapshots(last, snapshot))) {
+    return null;
+  }
+
+  snapshot.id = (last?.id ?? 0) + 1;
+  await fs.mkdir(path.dirname(toolHistoryConfig.file), { recursive: true });
+  await fs.appendFile(toolHistoryConfig.file, JSON.stringify(snapshot) + '\n', 'utf-8');
+  snapshots.push(snapshot);
+  return snapshot;
+}
+
+// ==================== Diff ====================
+
+function hasChanges(diff: ToolDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+const minus = (a: string[], b: string[]) => a.filter(item => !b.includes(item));
+
+/**
+ * Tools added, removed and changed from one snapshot to another
+ */
+export function diffSnapshots(from: ToolSnapshot | null, to: ToolSnapshot): ToolDiff {
+  const before = from?.tools ?? {};
+  const diff: ToolDiff = {
+    from: from ? { id: from.id, timestamp: from.timestamp, version: from.version } : null,
+    to: { id: to.id, timestamp: to.timestamp, version: to.version },
+    added: [],
+    removed: [],
+    changed: []
+  };
+
+  for (const [name, tool] of Object.entries(to.tools)) {
+    const previous = before[name];
+    if (!previous) {
+      diff.added.push({ name, category: tool.category });
+      continue;
+    }
+
+    const change: ToolChange = { name, category: tool.category };
+    const addedFields = minus(tool.fields, previous.fields);
+    const removedFields = minus(previous.fields, tool.fields);
+    const nowRequired = minus(tool.required, previous.required);
+    const noLongerRequired = minus(previous.required, tool.required);
+
+    if (addedFields.length > 0) change.addedFields = addedFields;
+    if (removedFields.length > 0) change.removedFields = removedFields;
+    if (nowRequired.length > 0) change.nowRequired = nowRequired;
+    if (noLongerRequired.length > 0) change.noLongerRequired = noLongerRequired;
+    if (previous.schemaHash !== tool.schemaHash) change.schemaChanged = true;
+    if (previous.category !== tool.category) change.categoryChanged = { from: previous.category, to: tool.category };
+    if (previous.descriptionHash !== tool.descriptionHash) change.descriptionChanged = true;
+
+    if (Object.keys(change).length > 2) {
+      diff.changed.push(change);
+    }
+  }
+
+  for (const [name, tool] of Object.entries(before)) {
+    if (!to.tools[name]) {
+      diff.removed.push({ name, category: tool.category });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Changelog text for a diff
+ */
+export function formatChangelog(diff: ToolDiff): string {
+  const label = (side: ToolDiff['to'] | null) => side
+    ? `${side.id === 0 ? 'atual' : `#${side.id}`} v${side.version} (${side.timestamp.slice(0, 10)})`
+    : 'início';
+  const lines = [`## ${label(diff.from)} → ${label(diff.to)}`];
+
+  if (!hasChanges(diff)) {
+    lines.push('', 'Nenhuma mudança nas ferramentas.');
+    return lines.join('\n');
+  }
+
+  if (diff.added.length > 0) {
+    lines.push('', '### Adicionadas');
+    diff.added.forEach(tool => lines.push(`- ${tool.name} (${tool.category})`));
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('', '### Removidas');
+    diff.removed.forEach(tool => lines.push(`- ${tool.name} (${tool.category})`));
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('', '### Alteradas');
+    for (const change of diff.changed) {
+      const details: string[] = [];
+      if (change.addedFields) details.push(`campos novos: ${change.addedFields.join(', ')}`);
+      if (change.removedFields) details.push(`campos removidos: ${change.removedFields.join(', ')}`);
+      if (change.nowRequired) details.push(`agora obrigatórios: ${change.nowRequired.join(', ')}`);
+      if (change.noLongerRequired) details.push(`agora opcionais: ${change.noLongerRequired.join(', ')}`);
+      if (change.categoryChanged) details.push(`categoria ${change.categoryChanged.from} → ${change.categoryChanged.to}`);
+      if (change.schemaChanged && details.length === 0) details.push('schema alterado');
+      if (change.descriptionChanged) details.push('descrição alterada');
+      lines.push(`- ${change.name}: ${details.join('; ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -14,6 +14,16 @@ export enum ToolName {
   PUPPETEER_TYPE = 'puppeteer_type',
   PUPPETEER_GET_CONTENT = 'puppeteer_get_content',
   PUPPETEER_NEW_TAB = 'puppeteer_new_tab',
+  PUPPETEER_NAVIGATE_AND_SCREENSHOT = 'puppeteer_navigate_and_screenshot',
+  
+  // Ekyte Tools
+  EKYTE_LOGIN = 'ekyte_login',
+  EKYTE_LOGIN_AND_NAVIGATE = 'ekyte_login_and_navigate',
+  EKYTE_PROCESS_NOTIFICATIONS = 'ekyte_process_notifications',
+  EKYTE_EXPLORE_SECTION = 'ekyte_explore_section',
+  EKYTE_MANAGE_TASK = 'ekyte_manage_task',
+  EKYTE_ANALYZE_METRICS = 'ekyte_analyze_metrics',
+  EKYTE_SMART_SEARCH = 'ekyte_smart_search',
   
   // Browser Tools
   OPEN_BROWSER = 'open_browser',
@@ -24,6 +34,23 @@ export enum ToolName {
   AGENTS_GET_DETAILS = 'agents_get_details',
   AGENTS_ANALYZE = 'agents_analyze',
   AGENTS_SEARCH = 'agents_search',
+  AGENTS_MANAGE_SKILLS = 'agents_manage_skills',
+  
+  // Plugin Tools
+  PLUGINS_RELOAD = 'plugins_reload',
+  
+  // Batch Tools
+  BATCH_EXECUTE = 'batch_execute',
+  
+  // Credentials Tools
+  CREDENTIALS_ADD = 'credentials_add',
+  CREDENTIALS_LIST = 'credentials_list',
+  CREDENTIALS_REMOVE = 'credentials_remove',
+  
+  // Server Tools
+  SERVER_METRICS = 'server_metrics',
+  SERVER_STATUS = 'server_status',
+  TOOLS_EVOLUTION = 'tools_evolution',
 }
 
 export enum LogLevel {
@@ -52,20 +79,24 @@ export interface PuppeteerConfig {
 // ==================== Tool Parameter Types ====================
 
 // Puppeteer Tool Parameters
-export interface NavigateParams {
+export interface BrowserSessionParams {
+  sessionId?: string;
+}
+
+export interface NavigateParams extends BrowserSessionParams {
   url: string;
 }
 
-export interface ScreenshotParams {
+export interface ScreenshotParams extends BrowserSessionParams {
   path: string;
   fullPage?: boolean;
 }
 
-export interface ClickParams {
+export interface ClickParams extends BrowserSessionParams {
   selector: string;
 }
 
-export interface TypeParams {
+export interface TypeParams extends BrowserSessionParams {
   selector: string;
   text: string;
 }
@@ -133,6 +164,9 @@ export enum ErrorCode {
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
   METHOD_NOT_FOUND = 'METHOD_NOT_FOUND',
+  CANCELLED = 'CANCELLED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  FORBIDDEN = 'FORBIDDEN',
   
   // Puppeteer errors
   BROWSER_NOT_INITIALIZED = 'BROWSER_NOT_INITIALIZED',
@@ -142,6 +176,11 @@ export enum ErrorCode {
 }
 
 export class MCPError extends Error {
+  /**
+   * Base64 PNG of the page when a browser failure happened
+   */
+  public screenshot?: string;
+
   constructor(
     public code: ErrorCode,
     message: string,
@@ -163,15 +202,55 @@ export interface ServerState {
 
 // ==================== Tool Definition Types ====================
 
+export interface ToolExecutionContext {
+  /**
+   * Aborted when the client cancels the request
+   */
+  signal: AbortSignal;
+
+  /**
+   * Client session that sent the request
+   */
+  sessionId?: string;
+
+  /**
+   * Id of the bearer token that authenticated the request (HTTP with auth enabled)
+   */
+  authTokenId?: string;
+
+  /**
+   * Id of the tools/call request, recorded in the audit log
+   */
+  requestId?: string | number;
+
+  /**
+   * Report progress to the client; a no-op when it sent no progress token
+   */
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+}
+
+export interface ToolAnnotations {
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+  openWorldHint: boolean;
+}
+
 export interface ToolDefinition {
-  name: ToolName;
+  name: ToolName | string;
   description: string;
   inputSchema: {
     type: 'object';
     properties: Record<string, any>;
     required?: string[];
   };
-  handler: (args: any) => Promise<ToolResult>;
+  outputSchema?: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+  annotations?: ToolAnnotations;
+  handler: (args: any, context?: ToolExecutionContext) => Promise<ToolResult>;
 }
 
 // ==================== Type Guards ====================
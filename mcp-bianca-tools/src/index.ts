@@ -5,25 +5,25 @@
  * Servidor simplificado que delega todas as operações para módulos específicos
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  ListToolsRequestSchema,
-  CallToolRequestSchema
-} from '@modelcontextprotocol/sdk/types.js';
+import type { Server as HttpServer } from 'http';
 
-// Importar todas as ferramentas e handlers dos módulos
+// Importar ferramentas e fábrica do servidor MCP
 import { 
-  allTools, 
-  toolHandlers,
+  ToolFactory, 
   startBrowserCleanup 
 } from './tools/index.js';
+import { createServer } from './core/server.js';
+import { startHttpServer, stopHttpServer } from './core/http-server.js';
+import { loadPlugins } from './core/plugins.js';
+import { loadMacros } from './core/macros.js';
+import { recordToolSnapshot } from './core/tool-history.js';
 
 // Importar sistema de logging
 import { logger, replaceConsoleWithLogger } from './utils/logger.js';
 
 // Importar configuração centralizada
-import { serverConfig, validateRequiredConfig } from './config/index.js';
+import { serverConfig, transportConfig, validateRequiredConfig } from './config/index.js';
 
 // Carregar variáveis de ambiente (já feito em config)
 // dotenv.config();
@@ -31,95 +31,8 @@ import { serverConfig, validateRequiredConfig } from './config/index.js';
 // Substituir console por logger estruturado
 replaceConsoleWithLogger();
 
-// Criar instância do servidor
-const server = new Server(
-  {
-    name: serverConfig.name,
-    version: serverConfig.version,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-/**
- * Handler para listar todas as ferramentas disponíveis
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  // Simplesmente retorna todas as ferramentas importadas
-  return { tools: allTools };
-});
-
-/**
- * Handler para executar ferramentas
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  
-  // Buscar handler da ferramenta
-  const handler = toolHandlers[name as keyof typeof toolHandlers];
-  
-  if (!handler) {
-    throw new Error(`Ferramenta não encontrada: ${name}`);
-  }
-  
-  try {
-    // Log da execução
-    const toolLogger = logger.forTool(name);
-    toolLogger.info('Executando ferramenta', args);
-    
-    // Executar handler da ferramenta (cast para any devido aos tipos diferentes)
-    const result = await (handler as any)(args || {});
-    
-    toolLogger.debug('Ferramenta executada com sucesso');
-    
-    // Retornar resultado
-    // O MCP espera que toolResult contenha diretamente o campo content
-    toolLogger.debug('Resultado da ferramenta:', result);
-    
-    // Log detalhado para debug
-    console.error(`[DEBUG] Tool ${name} result:`, JSON.stringify(result));
-    console.error(`[DEBUG] Result has content?`, !!(result && result.content));
-    console.error(`[DEBUG] Content is array?`, Array.isArray(result?.content));
-    
-    if (result && result.content) {
-      console.error(`[DEBUG] Returning content directly:`, JSON.stringify(result));
-      return result;
-    } else if (result && typeof result === 'object') {
-      // Se não houver content mas for um objeto válido, criar content
-      toolLogger.warn('Resultado sem campo content, criando automaticamente');
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(result, null, 2)
-        }],
-        ...result  // Preservar outros campos como success, data, etc
-      };
-    } else {
-      // Fallback para resultados simples
-      return {
-        content: [{
-          type: 'text',
-          text: String(result)
-        }]
-      };
-    }
-  } catch (error) {
-    // Tratamento de erro
-    const toolLogger = logger.forTool(name);
-    toolLogger.error('Erro ao executar ferramenta', error as Error, args);
-    
-    return {
-      content: [{
-        type: 'text',
-        text: `Erro ao executar ${name}: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true,
-    };
-  }
-});
+// Listener HTTP (apenas quando o transporte http está ativo)
+let httpServer: HttpServer | null = null;
 
 /**
  * Gerenciamento de shutdown gracioso
@@ -130,6 +43,11 @@ async function handleShutdown() {
   // Limpar recursos do Puppeteer
   // startBrowserCleanup já gerencia seu próprio cleanup
   
+  // Encerrar sessões HTTP abertas
+  if (httpServer) {
+    await stopHttpServer(httpServer);
+  }
+  
   process.exit(0);
 }
 
@@ -161,14 +79,47 @@ async function main() {
     logger.debug('Sistema de limpeza do browser iniciado');
   }
   
-  // Criar transporte stdio
-  const transport = new StdioServerTransport();
+  // Carregar plugins de ferramentas antes de aceitar conexões
+  const plugins = await loadPlugins();
+  if (plugins.loaded.length > 0 || plugins.failed.length > 0) {
+    console.error(`[${serverConfig.name}] 🧩 Plugins: ${plugins.loaded.length} carregados, ${plugins.failed.length} com falha`);
+  }
   
-  // Conectar e iniciar servidor
-  await server.connect(transport);
+  // Macros por último: seus passos podem chamar ferramentas de plugins
+  const macros = await loadMacros();
+  if (macros.loaded.length > 0 || macros.failed.length > 0) {
+    console.error(`[${serverConfig.name}] 🧱 Macros: ${macros.loaded.length} carregadas, ${macros.failed.length} com falha`);
+  }
+  
+  // Guardar o snapshot do registro de ferramentas se ele mudou desde a última execução
+  const snapshot = await recordToolSnapshot().catch(error => {
+    logger.warn('Falha ao gravar o histórico de ferramentas', error);
+    return null;
+  });
+  if (snapshot) {
+    logger.info(`Snapshot #${snapshot.id} do registro de ferramentas gravado`);
+  }
+  
+  if (transportConfig.type === 'http') {
+    // Streamable HTTP (com fallback SSE): várias sessões compartilham o mesmo browser
+    httpServer = await startHttpServer(transportConfig, createServer);
+    
+    const endpoint = `http://${transportConfig.host}:${transportConfig.port}${transportConfig.path}`;
+    logger.info(`Transporte HTTP ouvindo em ${endpoint}`);
+    console.error(`[${serverConfig.name}] 🌐 Streamable HTTP em ${endpoint}`);
+    if (transportConfig.sseFallback) {
+      console.error(`[${serverConfig.name}] 🌐 SSE legado em ${transportConfig.ssePath} (mensagens: ${transportConfig.messagesPath})`);
+    }
+  } else {
+    // Criar transporte stdio
+    const transport = new StdioServerTransport();
+    
+    // Conectar e iniciar servidor
+    await createServer().connect(transport);
+  }
   
-  logger.info(`Servidor iniciado com ${allTools.length} ferramentas`);
-  console.error(`[${serverConfig.name}] ✅ Servidor iniciado com ${allTools.length} ferramentas`);
+  logger.info(`Servidor iniciado com ${ToolFactory.getNames().length} ferramentas`);
+  console.error(`[${serverConfig.name}] ✅ Servidor iniciado com ${ToolFactory.getNames().length} ferramentas`);
   console.error(`[${serverConfig.name}] Aguardando conexões...`);
 }
 
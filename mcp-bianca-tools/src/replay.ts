@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * BiancaTools - Replay do audit log
+ *
+ * Reexecuta uma sessão gravada no audit log contra o build atual, na mesma
+ * ordem, e compara o resultado de cada chamada com o resultado gravado.
+ *
+ * Uso: npm run replay -- [arquivo] [--session <id>] [--tool <nome>] [--dry-run]
+ *
+ * Valores redigidos (ex.: password) são lidos de REPLAY_<CHAVE> no ambiente,
+ * por exemplo REPLAY_PASSWORD. Chamadas negadas pelo token (FORBIDDEN) não são
+ * reexecutadas.
+ */
+
+import { ToolFactory } from './tools/index.js';
+import { createToolPipeline } from './core/pipeline.js';
+import { NO_OP_CONTEXT } from './core/context.js';
+import { toMCPError } from './core/errors.js';
+import { loadPlugins } from './core/plugins.js';
+import { loadMacros } from './core/macros.js';
+import { readAuditLog, REDACTED, AuditEntry } from './core/audit.js';
+import { ErrorCode } from './core/types.js';
+import { auditConfig } from './config/index.js';
+
+interface ReplayOptions {
+  file: string;
+  session?: string;
+  tool?: string;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+  const options: ReplayOptions = { file: auditConfig.file, dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--session') options.session = argv[++i];
+    else if (arg === '--tool') options.tool = argv[++i];
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg && !arg.startsWith('--')) options.file = arg;
+  }
+
+  return options;
+}
+
+/**
+ * Substitui valores redigidos pelas variáveis REPLAY_<CHAVE>
+ */
+function restoreSecrets(value: any, missing: Set<string>): any {
+  if (Array.isArray(value)) {
+    return value.map(item => restoreSecrets(item, missing));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+      if (item !== REDACTED) return [key, restoreSecrets(item, missing)];
+
+      const envName = `REPLAY_${key.replace(/[^a-z0-9]/gi, '_').toUpperCase()}`;
+      const secret = process.env[envName];
+      if (secret === undefined) missing.add(envName);
+      return [key, secret ?? item];
+    }));
+  }
+  return value;
+}
+
+/**
+ * Sessão a reexecutar: a informada ou a última gravada
+ */
+function selectEntries(entries: AuditEntry[], options: ReplayOptions): AuditEntry[] {
+  const sessionId = options.session ?? entries[entries.length - 1]?.sessionId;
+
+  return entries.filter(entry =>
+    entry.sessionId === sessionId &&
+    (!options.tool || entry.tool === options.tool)
+  );
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const entries = selectEntries(await readAuditLog(options.file), options);
+
+  if (entries.length === 0) {
+    console.error(`Nenhuma chamada encontrada em ${options.file}`);
+    process.exit(1);
+  }
+
+  // Mesmo registro do servidor: plugins e depois macros, que podem chamá-los
+  await loadPlugins();
+  await loadMacros();
+  console.error(`▶️  Reexecutando ${entries.length} chamadas da sessão ${entries[0]!.sessionId}`);
+
+  let mismatches = 0;
+  let skipped = 0;
+
+  for (const [index, entry] of entries.entries()) {
+    const missing = new Set<string>();
+    const args = restoreSecrets(entry.args, missing);
+    const label = `[${index + 1}/${entries.length}] ${entry.tool}`;
+
+    // Negada na gravação: reexecutar sem token executaria o que foi bloqueado
+    if (entry.error?.code === ErrorCode.FORBIDDEN) {
+      skipped++;
+      console.error(`${label} ⏭️  pulada: negada na gravação${entry.token ? ` para o token ${entry.token}` : ''}`);
+      continue;
+    }
+
+    if (missing.size > 0) {
+      console.error(`${label}: ⚠️  defina ${Array.from(missing).join(', ')} para restaurar valores redigidos`);
+    }
+
+    if (options.dryRun) {
+      console.error(`${label} ${JSON.stringify(args)}`);
+      continue;
+    }
+
+    const handler = ToolFactory.get(entry.tool)?.handler;
+    const startTime = Date.now();
+    let outcome: AuditEntry['outcome'] = 'success';
+    let detail = '';
+
+    if (!handler) {
+      outcome = 'error';
+      detail = 'ferramenta não registrada neste build';
+    } else {
+      try {
+        const result: any = await createToolPipeline(entry.tool, handler as any)(args, NO_OP_CONTEXT);
+        if (result?.isError) outcome = 'error';
+      } catch (error) {
+        const mcpError = toMCPError(error);
+        outcome = 'error';
+        detail = `${mcpError.code}: ${mcpError.message}`;
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    const matches = outcome === entry.outcome;
+    if (!matches) mismatches++;
+
+    console.error(
+      `${label} ${matches ? '✅' : '❌'} ${outcome} em ${duration}ms ` +
+      `(gravado: ${entry.outcome} em ${entry.durationMs}ms${entry.error ? `, ${entry.error.code}` : ''})` +
+      (detail ? `\n    ${detail}` : '')
+    );
+  }
+
+  const replayed = entries.length - skipped;
+  console.error(
+    `\n${replayed - mismatches}/${replayed} chamadas reproduziram o resultado gravado` +
+    (skipped > 0 ? ` (${skipped} negadas puladas)` : '')
+  );
+  process.exit(mismatches > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Erro fatal no replay:', error);
+  process.exit(1);
+});
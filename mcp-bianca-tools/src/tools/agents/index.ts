@@ -4,53 +4,19 @@
  * Ferramentas para gerenciamento e análise de agentes do Claude Flow
  */
 
-import { z } from 'zod';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { MCPError, ErrorCode } from '../../types.js';
-
-// Path padrão para os agentes
-const DEFAULT_AGENTS_PATH = '/Users/phiz/Desktop/claude-flow-bianca/claude-bianca-flow/src/agents';
-
-// Schemas de validação
-export const ListAgentsSchema = z.object({
-  path: z.string().default(DEFAULT_AGENTS_PATH),
-  filter: z.object({
-    type: z.enum(['researcher', 'implementer', 'analyst', 'coordinator', 'custom']).optional(),
-    name: z.string().optional(),
-    hasTools: z.array(z.string()).optional()
-  }).optional()
-});
-
-export const GetAgentDetailsSchema = z.object({
-  agentFile: z.string().min(1, 'Nome do arquivo é obrigatório'),
-  agentName: z.string().optional()
-});
-
-export const AnalyzeAgentSchema = z.object({
-  agentFile: z.string().min(1, 'Nome do arquivo é obrigatório'),
-  analysisType: z.enum(['dependencies', 'tools', 'structure', 'usage'])
-});
-
-export const SearchAgentsSchema = z.object({
-  query: z.string().min(1, 'Query de busca é obrigatória'),
-  path: z.string().default(DEFAULT_AGENTS_PATH)
-});
-
-export const ManageSkillsSchema = z.object({
-  action: z.enum(['discover', 'register', 'list', 'execute', 'evolve', 'analyze_context']),
-  skillData: z.object({
-    name: z.string(),
-    description: z.string(),
-    context: z.string(),
-    selectors: z.array(z.string()).optional(),
-    steps: z.array(z.string()).optional(),
-    triggers: z.array(z.string()).optional(),
-    difficulty: z.enum(['basic', 'intermediate', 'advanced', 'expert'])
-  }).optional(),
-  naturalLanguageQuery: z.string().optional(),
-  contextData: z.any().optional()
-});
+import { MCPError, ErrorCode, ToolName } from '../../types.js';
+import { successResponse } from '../../utils.js';
+import { ToolFactory } from '../../core/factory.js';
+import {
+  DEFAULT_AGENTS_PATH,
+  AgentsListSchema,
+  AgentsGetDetailsSchema,
+  AgentsAnalyzeSchema,
+  AgentsSearchSchema,
+  AgentsManageSkillsSchema
+} from '../../core/schemas.js';
 
 // Tipos
 export interface Agent {
@@ -96,7 +62,7 @@ async function parseAgentsFile(filePath: string): Promise<Agent[]> {
 
 // Handler para listar agentes
 export async function handleListAgents(params: unknown) {
-  const validated = ListAgentsSchema.parse(params);
+  const validated = AgentsListSchema.parse(params);
   
   try {
     const agentsPath = validated.path;
@@ -132,23 +98,12 @@ export async function handleListAgents(params: unknown) {
       }
     }
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Encontrados ${allAgents.length} agentes`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify({
-            agents: allAgents,
-            total: allAgents.length,
-            path: validated.path,
-            filter: validated.filter
-          }, null, 2)
-        }
-      ]
-    };
+    return successResponse({
+      agents: allAgents,
+      total: allAgents.length,
+      path: validated.path,
+      filter: validated.filter
+    }, `Encontrados ${allAgents.length} agentes`);
   } catch (error: any) {
     throw new MCPError(
       ErrorCode.INTERNAL_ERROR,
@@ -159,7 +114,7 @@ export async function handleListAgents(params: unknown) {
 
 // Handler para obter detalhes de agente
 export async function handleGetAgentDetails(params: unknown) {
-  const validated = GetAgentDetailsSchema.parse(params);
+  const validated = AgentsGetDetailsSchema.parse(params);
   
   try {
     const agentsPath = DEFAULT_AGENTS_PATH;
@@ -176,37 +131,15 @@ export async function handleGetAgentDetails(params: unknown) {
         throw new Error(`Agente '${validated.agentName}' não encontrado em ${validated.agentFile}`);
       }
       
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Detalhes do agente ${validated.agentName}`
-          },
-          {
-            type: 'text' as const,
-            text: JSON.stringify(agent, null, 2)
-          }
-        ]
-      };
+      return successResponse(agent, `Detalhes do agente ${validated.agentName}`);
     }
     
     // Retornar todos os agentes do arquivo
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `${agents.length} agentes encontrados em ${validated.agentFile}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify({
-            file: validated.agentFile,
-            agents: agents,
-            total: agents.length
-          }, null, 2)
-        }
-      ]
-    };
+    return successResponse({
+      file: validated.agentFile,
+      agents: agents,
+      total: agents.length
+    }, `${agents.length} agentes encontrados em ${validated.agentFile}`);
   } catch (error: any) {
     throw new MCPError(
       ErrorCode.INTERNAL_ERROR,
@@ -217,7 +150,7 @@ export async function handleGetAgentDetails(params: unknown) {
 
 // Handler para analisar agente
 export async function handleAnalyzeAgent(params: unknown) {
-  const validated = AnalyzeAgentSchema.parse(params);
+  const validated = AgentsAnalyzeSchema.parse(params);
   
   try {
     const agentsPath = DEFAULT_AGENTS_PATH;
@@ -287,18 +220,7 @@ export async function handleAnalyzeAgent(params: unknown) {
         break;
     }
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Análise ${validated.analysisType} de ${validated.agentFile}`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify(analysis, null, 2)
-        }
-      ]
-    };
+    return successResponse(analysis, `Análise ${validated.analysisType} de ${validated.agentFile}`);
   } catch (error: any) {
     throw new MCPError(
       ErrorCode.INTERNAL_ERROR,
@@ -309,14 +231,13 @@ export async function handleAnalyzeAgent(params: unknown) {
 
 // Handler para gerenciar habilidades dinâmicas do agente Ekyte
 export async function handleManageSkills(params: unknown) {
-  const validated = ManageSkillsSchema.parse(params);
+  const validated = AgentsManageSkillsSchema.parse(params);
   
   console.log(`🧠 Gerenciando habilidades do agente Ekyte: ${validated.action}`);
   
   try {
-    // Importar sistema evolutivo real
-    const { EvolutionaryLearningSystem } = await import('../../core/evolutionary-learning-system.js');
-    const evolutionarySystem = new EvolutionaryLearningSystem();
+    // Usar a instância compartilhada para que prompts e recursos vejam as mudanças
+    const { evolutionaryLearningSystem: evolutionarySystem } = await import('../../core/evolutionary-learning-system.js');
     
     let result: any = {};
     
@@ -421,23 +342,12 @@ export async function handleManageSkills(params: unknown) {
         break;
     }
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `✅ Ação ${validated.action} executada com sucesso`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify({
-            action: validated.action,
-            result,
-            timestamp: new Date().toISOString(),
-            systemVersion: '2.0.0-evolutionary'
-          }, null, 2)
-        }
-      ]
-    };
+    return successResponse({
+      action: validated.action,
+      result,
+      timestamp: new Date().toISOString(),
+      systemVersion: '2.0.0-evolutionary'
+    }, `✅ Ação ${validated.action} executada com sucesso`);
     
   } catch (error: any) {
     console.error(`❌ Erro no sistema evolutivo:`, error);
@@ -450,7 +360,7 @@ export async function handleManageSkills(params: unknown) {
 
 // Handler para buscar agentes
 export async function handleSearchAgents(params: unknown) {
-  const validated = SearchAgentsSchema.parse(params);
+  const validated = AgentsSearchSchema.parse(params);
   
   try {
     const agentsPath = validated.path;
@@ -485,22 +395,11 @@ export async function handleSearchAgents(params: unknown) {
       return { ...agent, score };
     }).sort((a, b) => b.score - a.score);
     
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: `Encontrados ${scoredResults.length} agentes para "${validated.query}"`
-        },
-        {
-          type: 'text' as const,
-          text: JSON.stringify({
-            results: scoredResults,
-            total: scoredResults.length,
-            query: validated.query
-          }, null, 2)
-        }
-      ]
-    };
+    return successResponse({
+      results: scoredResults,
+      total: scoredResults.length,
+      query: validated.query
+    }, `Encontrados ${scoredResults.length} agentes para "${validated.query}"`);
   } catch (error: any) {
     throw new MCPError(
       ErrorCode.INTERNAL_ERROR,
@@ -509,132 +408,38 @@ export async function handleSearchAgents(params: unknown) {
   }
 }
 
-// Metadados das ferramentas de agentes
-export const agentsTools = [
-  {
-    name: 'agents_list',
-    description: 'Lista todos os agentes disponíveis no projeto Claude Flow com filtros opcionais',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        path: {
-          type: 'string',
-          description: 'Caminho para buscar agentes (padrão: ../claude-flow/src/agents)'
-        },
-        filter: {
-          type: 'object',
-          properties: {
-            type: {
-              type: 'string',
-              enum: ['researcher', 'implementer', 'analyst', 'coordinator', 'custom'],
-              description: 'Filtrar por tipo de agente'
-            },
-            name: {
-              type: 'string',
-              description: 'Filtrar por nome do agente'
-            },
-            hasTools: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Filtrar agentes que possuem determinadas ferramentas'
-            }
-          }
-        }
-      }
-    }
-  },
-  {
-    name: 'agents_get_details',
-    description: 'Obtém detalhes específicos de um agente ou arquivo de agentes',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        agentFile: {
-          type: 'string',
-          description: 'Nome do arquivo (ex: "dev-agents.ts")'
-        },
-        agentName: {
-          type: 'string',
-          description: 'Nome específico do agente (opcional)'
-        }
-      },
-      required: ['agentFile']
-    }
-  },
-  {
-    name: 'agents_analyze',
-    description: 'Analisa estrutura, dependências ou uso de ferramentas dos agentes',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        agentFile: {
-          type: 'string',
-          description: 'Nome do arquivo para analisar'
-        },
-        analysisType: {
-          type: 'string',
-          enum: ['dependencies', 'tools', 'structure', 'usage'],
-          description: 'Tipo de análise a realizar'
-        }
-      },
-      required: ['agentFile', 'analysisType']
-    }
-  },
-  {
-    name: 'agents_search',
-    description: 'Busca agentes por termo em nome, descrição ou ferramentas',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Termo de busca'
-        },
-        path: {
-          type: 'string',
-          description: 'Caminho personalizado (opcional)'
-        }
-      },
-      required: ['query']
-    }
-  },
-  {
-    name: 'agents_manage_skills',
-    description: 'Gerencia habilidades dinâmicas do agente especialista em Ekyte - sistema de aprendizado evolutivo',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        action: {
-          type: 'string',
-          enum: ['discover', 'register', 'list', 'execute', 'evolve', 'analyze_context'],
-          description: 'Ação a ser executada no sistema de habilidades'
-        },
-        skillData: {
-          type: 'object',
-          properties: {
-            name: { type: 'string', description: 'Nome da habilidade' },
-            description: { type: 'string', description: 'Descrição da habilidade' },
-            context: { type: 'string', description: 'Contexto onde foi descoberta' },
-            selectors: { type: 'array', items: { type: 'string' }, description: 'Seletores CSS necessários' },
-            steps: { type: 'array', items: { type: 'string' }, description: 'Passos para executar' },
-            triggers: { type: 'array', items: { type: 'string' }, description: 'Palavras-chave que ativam a habilidade' },
-            difficulty: { type: 'string', enum: ['basic', 'intermediate', 'advanced', 'expert'], description: 'Nível de dificuldade' }
-          },
-          required: ['name', 'description', 'context', 'difficulty'],
-          description: 'Dados da habilidade (para register)'
-        },
-        naturalLanguageQuery: {
-          type: 'string',
-          description: 'Query em linguagem natural para executar habilidade (para execute)'
-        },
-        contextData: {
-          type: 'object',
-          description: 'Dados do contexto atual da página (para discover/analyze_context)'
-        }
-      },
-      required: ['action']
-    }
-  }
-];
+// Registro das ferramentas de agentes
+ToolFactory.register({
+  name: ToolName.AGENTS_LIST,
+  description: 'Lista todos os agentes disponíveis no projeto Claude Flow com filtros opcionais',
+  handler: handleListAgents,
+  metadata: { category: 'agents', isReadOnly: true }
+});
+
+ToolFactory.register({
+  name: ToolName.AGENTS_GET_DETAILS,
+  description: 'Obtém detalhes específicos de um agente ou arquivo de agentes',
+  handler: handleGetAgentDetails,
+  metadata: { category: 'agents', isReadOnly: true }
+});
 
-// Sistema evolutivo integrado - versão funcional
\ No newline at end of file
+ToolFactory.register({
+  name: ToolName.AGENTS_ANALYZE,
+  description: 'Analisa estrutura, dependências ou uso de ferramentas dos agentes',
+  handler: handleAnalyzeAgent,
+  metadata: { category: 'agents', isReadOnly: true }
+});
+
+ToolFactory.register({
+  name: ToolName.AGENTS_SEARCH,
+  description: 'Busca agentes por termo em nome, descrição ou ferramentas',
+  handler: handleSearchAgents,
+  metadata: { category: 'agents', isReadOnly: true }
+});
+
+ToolFactory.register({
+  name: ToolName.AGENTS_MANAGE_SKILLS,                       // NOVA: Gerenciamento de Habilidades Dinâmicas
+  description: 'Gerencia habilidades dinâmicas do agente especialista em Ekyte - sistema de aprendizado evolutivo',
+  handler: handleManageSkills,
+  metadata: { category: 'agents', isReadOnly: false }
+});
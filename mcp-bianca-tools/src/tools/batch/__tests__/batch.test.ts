@@ -0,0 +1,91 @@
+/**
+ * batch_execute: {{index.path}} references between calls, stop/continue
+ * modes and per-call time limits. Calls go to test tools registered here.
+ */
+
+import { z } from 'zod';
+import { ToolFactory } from '../../../core/factory';
+import { ErrorCode, ToolResult } from '../../../core/types';
+import { successResponse } from '../../../utils';
+import { handleBatchExecute } from '../index';
+
+function dataOf<T>(result: ToolResult<T>): T {
+  if (!result.success) throw result.error;
+  return result.data;
+}
+
+const run = async (calls: any[], mode?: 'stop_on_error' | 'continue') => dataOf(await handleBatchExecute({ calls, mode }));
+
+beforeAll(() => {
+  ToolFactory.register({
+    name: 'test_echo',
+    description: 'Devolve os argumentos',
+    schema: z.object({}).passthrough(),
+    handler: async (args) => successResponse(args, 'eco')
+  });
+  ToolFactory.register({
+    name: 'test_slow',
+    description: 'Demora um segundo',
+    schema: z.object({}),
+    handler: () => new Promise(resolve => setTimeout(() => resolve(successResponse({})), 1000))
+  });
+});
+
+describe('references', () => {
+  it('passes whole values and interpolates strings', async () => {
+    const data = await run([
+      { tool: 'test_echo', args: { id: 7, user: { name: 'Bianca' } } },
+      { tool: 'test_echo', args: { user: '{{0.data.user}}', label: 'id={{0.data.id}} de {{ 0.data.user.name }}', all: '{{0}}' } }
+    ]);
+
+    expect(data.succeeded).toBe(2);
+    expect(data.steps[1]!.data).toEqual({
+      user: { name: 'Bianca' },
+      label: 'id=7 de Bianca',
+      all: { data: { id: 7, user: { name: 'Bianca' } }, text: expect.stringContaining('eco') }
+    });
+  });
+
+  it('rejects references to calls that have not run', async () => {
+    const data = await run([{ tool: 'test_echo', args: { next: '{{1.data}}' } }, { tool: 'test_echo' }]);
+
+    expect(data.steps[0]).toMatchObject({
+      status: 'error',
+      error: { code: ErrorCode.INVALID_PARAMS, message: 'Chamada 0 referencia {{1}}, que ainda não executou' }
+    });
+    expect(data.steps[1]!.status).toBe('skipped');
+  });
+
+  it('rejects paths missing from the result', async () => {
+    const data = await run([{ tool: 'test_echo', args: { a: 1 } }, { tool: 'test_echo', args: { b: '{{0.data.b}}' } }]);
+
+    expect(data.steps[1]!.error).toMatchObject({ message: 'Caminho 0.data.b não existe no resultado da chamada 0' });
+  });
+
+  it('rejects references to failed calls in continue mode', async () => {
+    const data = await run([
+      { tool: 'no_such_tool' },
+      { tool: 'test_echo', args: { previous: '{{0.data}}' } },
+      { tool: 'test_echo' }
+    ], 'continue');
+
+    expect(data.steps.map((step: any) => step.status)).toEqual(['error', 'error', 'success']);
+    expect(data.steps[0]!.error!.code).toBe(ErrorCode.NOT_FOUND);
+    expect(data.steps[1]!.error!.message).toContain('que falhou ou foi pulada');
+  });
+});
+
+describe('calls', () => {
+  it('does not nest batch_execute', async () => {
+    const data = await run([{ tool: 'batch_execute', args: { calls: [{ tool: 'test_echo' }] } }]);
+
+    expect(data.steps[0]!.error).toMatchObject({ code: ErrorCode.INVALID_PARAMS, message: 'batch_execute não pode ser aninhado' });
+  });
+
+  it('applies the per-call time limit', async () => {
+    const data = await run([{ tool: 'test_slow', timeoutMs: 50 }, { tool: 'test_echo' }], 'continue');
+
+    expect(data.steps[0]!.error!.code).toBe(ErrorCode.TIMEOUT);
+    expect(data.steps[1]!.status).toBe('success');
+  });
+});
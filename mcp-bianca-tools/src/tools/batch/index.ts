@@ -0,0 +1,152 @@
+/**
+ * Batch Tools Module
+ *
+ * Executa uma sequência de chamadas de ferramentas em uma única requisição
+ */
+
+import { successResponse } from '../../utils.js';
+import { MCPError, ErrorCode, ToolName, ToolExecutionContext } from '../../types.js';
+import { ToolFactory } from '../../core/factory.js';
+import { BatchExecuteSchema } from '../../core/schemas.js';
+import { invokeTool } from '../../core/pipeline.js';
+import { NO_OP_CONTEXT } from '../../core/context.js';
+import { toMCPError, toErrorPayload, ToolErrorPayload } from '../../core/errors.js';
+
+type BatchCall = { tool: string; args?: Record<string, any>; timeoutMs?: number };
+
+interface StepOutput {
+  data: any;
+  text: string;
+}
+
+interface StepResult {
+  index: number;
+  tool: string;
+  status: 'success' | 'error' | 'skipped';
+  durationMs: number;
+  data?: any;
+  error?: ToolErrorPayload;
+}
+
+// Referência a um resultado anterior: {{índice}} ou {{índice.caminho.até.valor}}
+const REFERENCE = /\{\{\s*(\d+)(?:\.([^{}\s]+))?\s*\}\}/g;
+
+/**
+ * Lê o valor referenciado por {{index.path}} nos resultados já obtidos
+ */
+function lookup(outputs: Array<StepOutput | undefined>, current: number, index: number, path?: string): any {
+  if (index >= current) {
+    throw new MCPError(ErrorCode.INVALID_PARAMS, `Chamada ${current} referencia {{${index}}}, que ainda não executou`, { call: current, reference: index });
+  }
+
+  const output = outputs[index];
+  if (!output) {
+    throw new MCPError(ErrorCode.INVALID_PARAMS, `Chamada ${current} referencia a chamada ${index}, que falhou ou foi pulada`, { call: current, reference: index });
+  }
+
+  let value: any = output;
+  for (const key of path ? path.split('.') : []) {
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      throw new MCPError(ErrorCode.INVALID_PARAMS, `Caminho ${index}.${path} não existe no resultado da chamada ${index}`, { call: current, reference: `${index}.${path}` });
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Substitui as referências nos argumentos; uma string que é só a referência
+ * recebe o valor original (objeto, número...), senão ele é interpolado
+ */
+function resolveReferences(value: any, outputs: Array<StepOutput | undefined>, current: number): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*(\d+)(?:\.([^{}\s]+))?\s*\}\}$/);
+    if (whole) {
+      return lookup(outputs, current, Number(whole[1]), whole[2]);
+    }
+    return value.replace(REFERENCE, (_match, index: string, path?: string) => {
+      const resolved = lookup(outputs, current, Number(index), path);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, outputs, current));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveReferences(item, outputs, current)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Executa uma chamada pelo mesmo pipeline de middlewares do servidor
+ */
+async function runCall(call: BatchCall, args: Record<string, any>, context: ToolExecutionContext): Promise<any> {
+  if (call.tool === ToolName.BATCH_EXECUTE) {
+    throw new MCPError(ErrorCode.INVALID_PARAMS, 'batch_execute não pode ser aninhado');
+  }
+
+  // Timeout da chamada: o informado no lote ou o configurado para a ferramenta
+  return invokeTool(call.tool, args, context, call.timeoutMs);
+}
+
+// Handler para executar várias chamadas de ferramentas em sequência
+export async function handleBatchExecute(
+  params: { calls: BatchCall[]; mode?: 'stop_on_error' | 'continue' },
+  context: ToolExecutionContext = NO_OP_CONTEXT
+) {
+  const validated = BatchExecuteSchema.parse(params);
+  const { calls, mode } = validated;
+
+  const outputs: Array<StepOutput | undefined> = [];
+  const steps: StepResult[] = [];
+  let stopped = false;
+
+  for (const [index, call] of calls.entries()) {
+    if (stopped || context.signal.aborted) {
+      steps.push({ index, tool: call.tool, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    const startTime = Date.now();
+    try {
+      const args = resolveReferences(call.args, outputs, index);
+      const result = await runCall(call, args, context);
+      const text = (result?.content ?? [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('\n');
+
+      outputs[index] = { data: result?.data ?? result?.structuredContent, text };
+      steps.push({ index, tool: call.tool, status: 'success', durationMs: Date.now() - startTime, data: outputs[index]!.data ?? text });
+    } catch (error) {
+      const mcpError = toMCPError(error);
+      steps.push({ index, tool: call.tool, status: 'error', durationMs: Date.now() - startTime, error: toErrorPayload(mcpError) });
+      stopped = mode === 'stop_on_error';
+    }
+
+    await context.reportProgress(index + 1, calls.length, `${call.tool}: ${steps[index]!.status}`);
+  }
+
+  const succeeded = steps.filter(step => step.status === 'success').length;
+  const failed = steps.filter(step => step.status === 'error').length;
+  const skipped = steps.filter(step => step.status === 'skipped').length;
+
+  const response = successResponse(
+    { mode, succeeded, failed, skipped, steps },
+    `Lote: ${succeeded} de ${calls.length} chamadas com sucesso` +
+      (failed > 0 ? `, ${failed} com erro` : '') +
+      (skipped > 0 ? `, ${skipped} puladas` : '')
+  );
+  return failed > 0 ? { ...response, isError: true } : response;
+}
+
+// Registro das ferramentas de lote
+ToolFactory.register({
+  name: ToolName.BATCH_EXECUTE,
+  description: 'Run an ordered list of tool calls in one request; later calls can use earlier results via {{index.path}}',
+  handler: handleBatchExecute,
+  metadata: { category: 'utility', isReadOnly: false, isOpenWorld: true, cacheable: false }
+});
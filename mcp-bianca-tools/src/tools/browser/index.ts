@@ -6,21 +6,16 @@
 
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { z } from 'zod';
 import { successResponse } from '../../utils.js';
-import { MCPError, ErrorCode } from '../../types.js';
+import { MCPError, ErrorCode, ToolName } from '../../types.js';
+import { ToolFactory } from '../../core/factory.js';
+import { BrowserOpenUrlSchema } from '../../core/schemas.js';
 
 const execAsync = promisify(exec);
 
-// Schema de validação
-export const OpenUrlSchema = z.object({
-  url: z.string().url('URL inválida fornecida'),
-  browser: z.enum(['default', 'chrome', 'safari', 'firefox']).optional().default('default')
-});
-
 // Handler para abrir URL no navegador do sistema
 export async function handleOpenUrl(params: { url: string; browser?: string }) {
-  const validated = OpenUrlSchema.parse(params);
+  const validated = BrowserOpenUrlSchema.parse(params);
   
   try {
     let command: string;
@@ -57,26 +52,10 @@ export async function handleOpenUrl(params: { url: string; browser?: string }) {
   }
 }
 
-// Metadados das ferramentas do navegador
-export const browserTools = [
-  {
-    name: 'browser_open_url',
-    description: 'Abre uma URL no navegador padrão do sistema ou em um navegador específico',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { 
-          type: 'string', 
-          description: 'URL para abrir no navegador'
-        },
-        browser: {
-          type: 'string',
-          enum: ['default', 'chrome', 'safari', 'firefox'],
-          description: 'Navegador específico para usar (padrão: navegador padrão do sistema)',
-          default: 'default'
-        }
-      },
-      required: ['url']
-    }
-  }
-];
\ No newline at end of file
+// Registro das ferramentas do navegador
+ToolFactory.register({
+  name: ToolName.BROWSER_OPEN_URL,
+  description: 'Abre uma URL no navegador padrão do sistema ou em um navegador específico',
+  handler: handleOpenUrl,
+  metadata: { category: 'browser', isReadOnly: false }
+});
@@ -0,0 +1,66 @@
+/**
+ * Credentials Tools Module
+ *
+ * Ferramentas para gerenciar os perfis de login do cofre de credenciais;
+ * nenhuma delas devolve senhas
+ */
+
+import { successResponse } from '../../utils.js';
+import { ToolName } from '../../types.js';
+import { ToolFactory } from '../../core/factory.js';
+import { CredentialsAddSchema, CredentialsListSchema, CredentialsRemoveSchema } from '../../core/schemas.js';
+import {
+  addCredentialProfile,
+  listCredentialProfiles,
+  removeCredentialProfile
+} from '../../core/credentials.js';
+
+// Handler para cadastrar (ou substituir) um perfil de credenciais
+export async function handleCredentialsAdd(params: { profile: string; email: string; password: string; overwrite?: boolean }) {
+  const validated = CredentialsAddSchema.parse(params);
+
+  const info = await addCredentialProfile(
+    validated.profile,
+    { email: validated.email, password: validated.password },
+    validated.overwrite
+  );
+  return successResponse(info, `Perfil ${info.profile} salvo para ${info.email}`);
+}
+
+// Handler para listar os perfis cadastrados (sem senhas)
+export async function handleCredentialsList(params: Record<string, never>) {
+  CredentialsListSchema.parse(params);
+
+  const profiles = await listCredentialProfiles();
+  return successResponse({ profiles }, `${profiles.length} perfis de credenciais`);
+}
+
+// Handler para remover um perfil
+export async function handleCredentialsRemove(params: { profile: string }) {
+  const validated = CredentialsRemoveSchema.parse(params);
+
+  const info = await removeCredentialProfile(validated.profile);
+  return successResponse(info, `Perfil ${info.profile} removido`);
+}
+
+// Registro das ferramentas de credenciais
+ToolFactory.register({
+  name: ToolName.CREDENTIALS_ADD,
+  description: 'Store a named login profile (email and password) in the encrypted credential store',
+  handler: handleCredentialsAdd,
+  metadata: { category: 'utility', isReadOnly: false, isOpenWorld: false }
+});
+
+ToolFactory.register({
+  name: ToolName.CREDENTIALS_LIST,
+  description: 'List stored credential profiles without their passwords',
+  handler: handleCredentialsList,
+  metadata: { category: 'utility', isReadOnly: true, isOpenWorld: false, cacheable: false }
+});
+
+ToolFactory.register({
+  name: ToolName.CREDENTIALS_REMOVE,
+  description: 'Delete a credential profile from the encrypted store',
+  handler: handleCredentialsRemove,
+  metadata: { category: 'utility', isReadOnly: false, isDestructive: true, isIdempotent: false, isOpenWorld: false }
+});
@@ -0,0 +1,32 @@
+/**
+ * Plugin Tools Module
+ *
+ * Ferramentas para gerenciar plugins de ferramentas de terceiros
+ */
+
+import { successResponse } from '../../utils.js';
+import { ToolName } from '../../types.js';
+import { ToolFactory } from '../../core/factory.js';
+import { PluginsReloadSchema } from '../../core/schemas.js';
+import { reloadPlugins } from '../../core/plugins.js';
+
+// Handler para recarregar os plugins e avisar os clientes conectados
+export async function handlePluginsReload(params: Record<string, never>) {
+  PluginsReloadSchema.parse(params);
+
+  const report = await reloadPlugins();
+  const toolCount = report.loaded.reduce((total, plugin) => total + plugin.tools.length, 0);
+
+  return successResponse(
+    report,
+    `${report.loaded.length} plugins recarregados (${toolCount} ferramentas), ${report.failed.length} com falha`
+  );
+}
+
+// Registro das ferramentas de plugins
+ToolFactory.register({
+  name: ToolName.PLUGINS_RELOAD,
+  description: 'Reload third-party tool plugins from the configured directory and packages',
+  handler: handlePluginsReload,
+  metadata: { category: 'utility', isReadOnly: false, isIdempotent: true, isOpenWorld: false }
+});
@@ -0,0 +1,99 @@
+/**
+ * Ekyte and Puppeteer handlers replayed offline from the fixture set in
+ * ./fixtures/ekyte (login page, dashboard and stylesheet of app.ekyte.com).
+ * Requests outside the set are aborted, so nothing reaches the network.
+ */
+
+import { promises as fs, existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import puppeteer from 'puppeteer';
+import { useFixtures } from '../../../core/fixtures';
+import { puppeteerConfig } from '../../../config';
+import { ErrorCode, ToolResult } from '../../../core/types';
+import {
+  handleEkyteLogin,
+  handleEkyteAnalyzeMetrics,
+  handleEkyteSmartSearch,
+  handleNavigate,
+  handleGetContent,
+  closeBrowser
+} from '../index';
+
+const credentials = { email: 'qa@bianca.test', password: 'fixture-password' };
+
+jest.setTimeout(60000);
+
+// Sem Chrome (npx puppeteer browsers install chrome) os casos que abrem o browser são pulados
+const withChrome = existsSync(puppeteerConfig.executablePath ?? puppeteer.executablePath()) ? it : it.skip;
+
+// Os handlers lançam MCPError em falhas; um resultado sem sucesso é inesperado
+function dataOf<T>(result: ToolResult<T>): T {
+  if (!result.success) throw result.error;
+  return result.data;
+}
+
+let outputDir: string;
+
+beforeAll(async () => {
+  await useFixtures('replay', path.join(__dirname, 'fixtures', 'ekyte'));
+  outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bianca-ekyte-'));
+});
+
+afterAll(async () => {
+  await closeBrowser();
+  await useFixtures('off');
+  await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+describe('handleEkyteLogin', () => {
+  withChrome('logs in and lands on the dashboard', async () => {
+    const screenshotPath = path.join(outputDir, 'login');
+    const result = await handleEkyteLogin({ ...credentials, screenshotPath });
+
+    expect(dataOf(result)).toMatchObject({
+      currentUrl: 'https://app.ekyte.com/dashboard',
+      title: 'Ekyte - Painel',
+      email: credentials.email
+    });
+    await expect(fs.access(`${screenshotPath}-before-login.png`)).resolves.toBeUndefined();
+    await expect(fs.access(`${screenshotPath}-after-login.png`)).resolves.toBeUndefined();
+  });
+
+  it('requires a profile or inline credentials', async () => {
+    await expect(handleEkyteLogin({})).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMS });
+  });
+});
+
+describe('handleEkyteAnalyzeMetrics', () => {
+  withChrome('extracts the dashboard metrics', async () => {
+    const screenshotPath = path.join(outputDir, 'metrics.png');
+    const result = await handleEkyteAnalyzeMetrics({ ...credentials, screenshotPath });
+
+    expect(dataOf(result).metrics).toMatchObject({ tickets: 12, tasks: 7, timeToday: ['85% do dia planejado'] });
+    await expect(fs.access(screenshotPath)).resolves.toBeUndefined();
+  });
+});
+
+describe('handleEkyteSmartSearch', () => {
+  withChrome('searches through the dashboard search field', async () => {
+    const screenshotPath = path.join(outputDir, 'search.png');
+    const result = await handleEkyteSmartSearch({ ...credentials, searchTerm: 'relatório', screenshotPath });
+
+    expect(dataOf(result)).toEqual({ searchTerm: 'relatório', method: 'search_field', screenshotPath });
+  });
+});
+
+describe('handleNavigate and handleGetContent', () => {
+  withChrome('serves recorded pages', async () => {
+    await handleNavigate({ url: 'https://app.ekyte.com/dashboard' });
+    const result = await handleGetContent();
+
+    expect(dataOf(result).content).toContain('12 tickets abertos');
+  });
+
+  withChrome('fails pages that were not recorded', async () => {
+    await expect(handleNavigate({ url: 'https://app.ekyte.com/relatorios' }))
+      .rejects.toMatchObject({ code: ErrorCode.PAGE_LOAD_FAILED });
+  });
+});
@@ -4,203 +4,531 @@
  * Ferramentas de automação web usando Puppeteer
  */
 
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser, BrowserContext, Page, TimeoutError } from 'puppeteer';
 import { z } from 'zod';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { 
   successResponse 
 } from '../../utils.js';
+import { registerScreenshot } from '../../core/resources.js';
+import { ToolFactory } from '../../core/factory.js';
+import { NO_OP_CONTEXT, isTimeoutAbort, sessionEvents } from '../../core/context.js';
+import { toMCPError } from '../../core/errors.js';
+import { attachFixtures, recordToolRun } from '../../core/fixtures.js';
+import { registerGauge } from '../../core/metrics.js';
+import { registerPageStateProvider, invalidatePageCache } from '../../core/cache.js';
+import { resolveCredentials } from '../../core/credentials.js';
+import { hasFullAccess } from '../../core/auth.js';
+import { puppeteerConfig, ekyteConfig } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
 import {
+  NavigateSchema,
+  ScreenshotSchema,
+  ClickSchema,
+  TypeSchema,
+  GetContentSchema,
+  OpenBrowserSchema
+} from '../../core/schemas.js';
+import {
+  BrowserSessionParams,
   NavigateParams,
   ScreenshotParams,
   ClickParams,
   TypeParams,
   MCPError,
-  ErrorCode
+  ErrorCode,
+  ToolName,
+  ToolExecutionContext
 } from '../../types.js';
 
 const execAsync = promisify(exec);
 
-// Schemas de validação
-export const NavigateSchema = z.object({
-  url: z.string().url('URL inválida fornecida')
-});
-
-export const ScreenshotSchema = z.object({
-  path: z.string().min(1, 'Caminho do arquivo é obrigatório'),
-  fullPage: z.boolean().optional().default(false)
-});
-
-export const ClickSchema = z.object({
-  selector: z.string().min(1, 'Seletor CSS é obrigatório')
-});
-
-export const TypeSchema = z.object({
-  selector: z.string().min(1, 'Seletor CSS é obrigatório'),
-  text: z.string()
-});
+// Login do Ekyte: perfil do cofre de credenciais ou email/password (legado)
+type EkyteCredentialParams = BrowserSessionParams & { profile?: string; email?: string; password?: string };
 
-export const OpenBrowserSchema = z.object({
-  url: z.string().url('URL inválida fornecida')
-});
+// Logs do módulo vão para stderr/arquivo/cliente MCP, nunca para stdout
+const log = logger.forTool('puppeteer');
 
-// Estado do browser
+// Estado do browser: um processo compartilhado e um contexto anônimo por sessão
 let browser: Browser | null = null;
-let page: Page | null = null;
+let launching: Promise<Browser> | null = null;
 let lastActivity = Date.now();
 
-// Configurações
-const BROWSER_TIMEOUT = 30 * 60 * 1000; // 30 minutos (aumentado de 5)
-const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
-const PAGE_TIMEOUT = 30000; // 30 segundos para carregamento de página
+/**
+ * Contexto anônimo de uma sessão: cookies, storage e abas isolados das demais
+ */
+interface BrowserSession {
+  key: string;
+  token?: string;  // Id do Bearer token que abriu a sessão
+  context: BrowserContext;
+  page: Page | null;
+  lastActivity: number;
+  navigationCount: number;  // Navegações da página principal (parte da versão do DOM)
+}
+
+const sessions = new Map<string, BrowserSession>();
+const pendingSessions = new Map<string, Promise<BrowserSession>>();
+
+// Configurações (config.puppeteer e config.ekyte)
+const BROWSER_TIMEOUT = puppeteerConfig.maxIdleTime;
+const SESSION_TIMEOUT = puppeteerConfig.sessionIdleTime;
+const DEFAULT_VIEWPORT = puppeteerConfig.viewport;
+const PAGE_TIMEOUT = puppeteerConfig.defaultTimeout;
+const EKYTE_LOGIN_URL = new URL(ekyteConfig.loginPath, ekyteConfig.baseUrl).toString();
+const EKYTE_LOGIN_TIMEOUT = ekyteConfig.loginTimeout;
 
 // Configurações do browser - melhoradas para persistência
 const BROWSER_CONFIG = {
-  headless: false,
+  headless: puppeteerConfig.headless,
   defaultViewport: DEFAULT_VIEWPORT,
-  args: [
-    '--no-sandbox',
-    '--disable-setuid-sandbox',
-    '--disable-dev-shm-usage',
-    '--disable-accelerated-2d-canvas',
-    '--no-first-run',
-    '--no-zygote',
-    '--disable-gpu'
-  ]
+  args: puppeteerConfig.args,
+  ...(puppeteerConfig.executablePath ? { executablePath: puppeteerConfig.executablePath } : {})
 };
 
+// Gauges do browser expostos em server_metrics e /metrics
+registerGauge('bianca_browser_connected', 'Whether the Puppeteer browser is running.',
+  () => browser?.isConnected() ? 1 : 0);
+registerGauge('bianca_browser_open_pages', 'Pages open in the Puppeteer browser.',
+  async () => browser?.isConnected() ? (await browser.pages()).length : 0);
+registerGauge('bianca_browser_sessions', 'Isolated browser contexts open, one per session.',
+  () => sessions.size);
+registerGauge('bianca_browser_idle_seconds', 'Seconds since the last browser activity.',
+  () => browser ? Math.round((Date.now() - lastActivity) / 1000) : 0);
+
+// Conta mutações do DOM; injetado em cada documento carregado
+function installDomVersionCounter() {
+  const w = window as any;
+  if (w.__biancaDomVersion !== undefined) return;
+  w.__biancaDomVersion = 0;
+  new MutationObserver(() => { w.__biancaDomVersion++; })
+    .observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+}
+
+/**
+ * Chave da sessão implícita de uma sessão MCP
+ */
+const mcpSessionKey = (sessionId: string | undefined) => `mcp:${sessionId ?? 'local'}`;
+
+/**
+ * Sessão do browser usada por uma chamada: o sessionId informado (separado por
+ * token, para que tokens diferentes não compartilhem contexto) ou a sessão MCP
+ */
+function sessionKey(params: BrowserSessionParams | undefined, context: ToolExecutionContext): string {
+  if (params?.sessionId) {
+    return context.authTokenId ? `named:${context.authTokenId}/${params.sessionId}` : `named:${params.sessionId}`;
+  }
+  return mcpSessionKey(context.sessionId);
+}
+
+// O cache de resultados usa sessão + URL + versão do DOM como chave
+registerPageStateProvider(async (args, execution = NO_OP_CONTEXT) => {
+  const session = sessions.get(sessionKey(args, execution));
+  const page = session?.page;
+  if (!session || !page || page.isClosed()) return undefined;
+  const mutations = await page.evaluate(() => (window as any).__biancaDomVersion ?? -1);
+  return `${session.key}|${page.url()}#${session.navigationCount}.${mutations}`;
+});
+
 /**
- * Garante que o browser está inicializado
+ * Garante que o browser está inicializado; chamadas simultâneas aguardam o mesmo launch
  */
-async function ensureBrowser(): Promise<void> {
-  console.log(`🔍 Verificando estado do browser... (browser: ${!!browser}, connected: ${browser?.isConnected()}, page: ${!!page}, closed: ${page?.isClosed()})`);
+async function ensureBrowser(): Promise<Browser> {
+  if (browser?.isConnected()) return browser;
   
-  if (!browser || !browser.isConnected()) {
-    console.log('🚀 Iniciando novo browser Puppeteer...');
-    
-    // Usa configuração melhorada
-    browser = await puppeteer.launch(BROWSER_CONFIG);
-    
-    // Adiciona listener para fechar gracefully
-    browser.on('disconnected', () => {
-      console.log('❌ Browser desconectado');
+  launching ??= launchBrowser().finally(() => {
+    launching = null;
+  });
+  return launching;
+}
+
+async function launchBrowser(): Promise<Browser> {
+  log.info('🚀 Iniciando novo browser Puppeteer...');
+  
+  // Usa configuração melhorada
+  const launched = await puppeteer.launch(BROWSER_CONFIG);
+  
+  // Adiciona listener para fechar gracefully
+  launched.on('disconnected', () => {
+    log.info('❌ Browser desconectado');
+    if (browser === launched) {
       browser = null;
-      page = null;
-    });
-    
-    console.log('✅ Browser iniciado com sucesso');
+      sessions.clear();
+    }
+    invalidatePageCache();
+  });
+  
+  browser = launched;
+  log.info('✅ Browser iniciado com sucesso');
+  return launched;
+}
+
+/**
+ * Abre a página principal da sessão com viewport, timeouts e contador de versão do DOM
+ */
+async function openSessionPage(session: BrowserSession): Promise<Page> {
+  const page = await session.context.newPage();
+  await page.setViewport(DEFAULT_VIEWPORT);
+  page.setDefaultTimeout(PAGE_TIMEOUT);
+  page.setDefaultNavigationTimeout(PAGE_TIMEOUT);
+  await attachFixtures(page);
+  
+  // Invalidar resultados em cache a cada navegação da página principal
+  await page.evaluateOnNewDocument(installDomVersionCounter);
+  await page.evaluate(installDomVersionCounter).catch(() => undefined);
+  page.on('framenavigated', frame => {
+    if (frame === page.mainFrame()) {
+      session.navigationCount++;
+      invalidatePageCache();
+    }
+  });
+  
+  log.info(`⚙️ Página da sessão ${session.key} configurada com viewport e timeouts`);
+  return page;
+}
+
+/**
+ * Cria o contexto anônimo de uma sessão no browser compartilhado
+ */
+async function createSession(key: string, token: string | undefined): Promise<BrowserSession> {
+  const current = await ensureBrowser();
+  
+  log.info(`🕶️ Criando contexto anônimo para a sessão ${key}`);
+  const session: BrowserSession = {
+    key,
+    ...(token ? { token } : {}),
+    context: await current.createBrowserContext(),
+    page: null,
+    lastActivity: Date.now(),
+    navigationCount: 0
+  };
+  sessions.set(key, session);
+  return session;
+}
+
+/**
+ * Garante o browser, o contexto da sessão e sua página principal
+ */
+async function ensurePage(params: BrowserSessionParams | undefined, context: ToolExecutionContext): Promise<Page> {
+  const key = sessionKey(params, context);
+  
+  let session = sessions.get(key);
+  if (!session) {
+    let pending = pendingSessions.get(key);
+    if (!pending) {
+      pending = createSession(key, context.authTokenId).finally(() => pendingSessions.delete(key));
+      pendingSessions.set(key, pending);
+    }
+    session = await pending;
   } else {
-    console.log('♻️ Reutilizando browser existente');
+    log.debug(`♻️ Reutilizando contexto da sessão ${key}`);
   }
   
-  if (!page || page.isClosed()) {
-    console.log('📄 Criando nova página...');
-    const pages = await browser.pages();
-    
-    if (pages.length > 0) {
-      page = pages[0] || null;
-      console.log('📄 Reutilizando página existente');
-    } else {
-      page = await browser.newPage();
-      console.log('📄 Nova página criada');
-    }
+  if (!session.page || session.page.isClosed()) {
+    session.page = await openSessionPage(session);
+  }
+  
+  session.lastActivity = lastActivity = Date.now();
+  log.debug(`⏰ Última atividade atualizada: ${new Date(lastActivity).toLocaleTimeString()}`);
+  return session.page;
+}
+
+/**
+ * Fecha o contexto de uma sessão com todas as suas abas
+ */
+async function closeBrowserSession(key: string): Promise<void> {
+  const session = sessions.get(key);
+  if (!session) return;
+  
+  sessions.delete(key);
+  await session.context.close().catch(() => undefined);
+  invalidatePageCache();
+  log.info(`🧹 Contexto da sessão ${key} fechado`);
+}
+
+// Sessão MCP encerrada: descartar o contexto implícito dela
+sessionEvents.on('closed', (sessionId: string) => {
+  closeBrowserSession(mcpSessionKey(sessionId)).catch(() => undefined);
+});
+
+/**
+ * Captura screenshot da página e a publica como recurso MCP
+ */
+async function captureScreenshot(page: Page, path: string, fullPage: boolean = false): Promise<string> {
+  await page.screenshot({
+    path: path as any, // Type assertion para resolver conflito de tipos
+    fullPage
+  });
+  
+  registerScreenshot(path, page.url());
+  return path;
+}
+
+/**
+ * Erro padronizado para operações canceladas pelo cliente
+ */
+function cancelledError(): MCPError {
+  return new MCPError(ErrorCode.CANCELLED, 'Operação cancelada pelo cliente');
+}
+
+/**
+ * Erro para um sinal disparado: timeout da ferramenta (config.tools.timeouts) ou cancelamento
+ */
+function abortError(signal: AbortSignal, page?: Page | null): MCPError {
+  return isTimeoutAbort(signal)
+    ? new MCPError(ErrorCode.TIMEOUT, 'Tempo limite da ferramenta excedido', page && !page.isClosed() ? { url: page.url() } : undefined)
+    : cancelledError();
+}
+
+/**
+ * Aguarda o tempo informado, interrompendo se a requisição for cancelada
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(cancelledError());
+    
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Rejeita uma operação pendente do Puppeteer assim que a requisição é cancelada
+ */
+function abortable<T>(operation: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    
+    operation
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Leva a página para about:blank, interrompendo navegações pendentes
+ */
+async function resetPage(page: Page | null): Promise<void> {
+  if (!page || page.isClosed()) return;
+  
+  await page.goto('about:blank', { timeout: 5000 }).catch(() => undefined);
+  log.info('🧹 Página redefinida para about:blank após cancelamento');
+}
+
+/**
+ * Converte uma falha do Puppeteer em MCPError com código específico
+ */
+function browserError(error: unknown, message?: string, page?: Page | null): MCPError {
+  if (error instanceof MCPError || error instanceof z.ZodError || !(error instanceof Error)) {
+    return toMCPError(error);
+  }
+  
+  // Timeout em waitForSelector significa que o elemento não apareceu
+  const selectorMatch = error.message.match(/(?:selector:?\s*`?|for selector\s+)([^`\n]+)`?/i);
+  let code = ErrorCode.PAGE_LOAD_FAILED;
+  if (/no element found|waiting for selector|not clickable|not visible/i.test(error.message)) {
+    code = ErrorCode.ELEMENT_NOT_FOUND;
+  } else if (error instanceof TimeoutError) {
+    code = ErrorCode.TIMEOUT;
+  }
+  
+  return new MCPError(code, message ? `${message}: ${error.message}` : error.message, {
+    cause: error.message,
+    errorName: error.name,
+    ...(code === ErrorCode.ELEMENT_NOT_FOUND && selectorMatch ? { selector: selectorMatch[1]?.trim() } : {}),
+    ...(page && !page.isClosed() ? { url: page.url() } : {})
+  });
+}
+
+// Códigos para os quais vale anexar a tela da página com falha
+const BROWSER_FAILURE_CODES = [
+  ErrorCode.TIMEOUT,
+  ErrorCode.PAGE_LOAD_FAILED,
+  ErrorCode.ELEMENT_NOT_FOUND,
+  ErrorCode.SCREENSHOT_FAILED
+];
+
+/**
+ * Anexa ao erro um screenshot da página no momento da falha
+ */
+async function attachFailureScreenshot(error: MCPError, page: Page | null): Promise<MCPError> {
+  if (!puppeteerConfig.screenshotOnError || !BROWSER_FAILURE_CODES.includes(error.code)) {
+    return error;
+  }
+  if (!page || page.isClosed() || error.screenshot) {
+    return error;
+  }
+  
+  error.screenshot = await page.screenshot({ encoding: 'base64' }).catch(() => undefined);
+  return error;
+}
+
+/**
+ * Envolve um handler: cancelamentos deixam a página em estado conhecido e
+ * falhas viram MCPError com código, detalhes e screenshot opcional
+ */
+function browserHandler<P>(handler: (params: P, context: ToolExecutionContext) => Promise<any>) {
+  return async (params: P, context: ToolExecutionContext = NO_OP_CONTEXT) => {
+    // Página principal da sessão da chamada (null antes da primeira abertura)
+    const sessionPage = () => sessions.get(sessionKey(params as BrowserSessionParams, context))?.page ?? null;
     
-    // Configurar viewport e timeouts apenas se page não for null
-    if (page) {
-      await page.setViewport(DEFAULT_VIEWPORT);
-      page.setDefaultTimeout(PAGE_TIMEOUT);
-      page.setDefaultNavigationTimeout(PAGE_TIMEOUT);
+    try {
+      return await handler(params, context);
+    } catch (error) {
+      if (context.signal.aborted) {
+        const error = abortError(context.signal, sessionPage());
+        await attachFailureScreenshot(error, sessionPage());
+        await resetPage(sessionPage());
+        throw error;
+      }
       
-      console.log('⚙️ Página configurada com viewport e timeouts');
+      throw await attachFailureScreenshot(browserError(error, undefined, sessionPage()), sessionPage());
+    } finally {
+      // Em modo de gravação de fixtures, salvar rede e DOM desta execução
+      await recordToolRun(sessionPage(), handler.name).catch(() => undefined);
     }
-  } else {
-    console.log('♻️ Reutilizando página existente');
-  }
+  };
+}
+
+/**
+ * Estado do browser compartilhado: conexão, páginas e sessões abertas e timers
+ * de inatividade; para um token restrito, só as páginas das sessões dele
+ */
+export async function getBrowserStatus(tokenId?: string) {
+  const now = Date.now();
+  const idleMs = now - lastActivity;
+  const connected = !!browser?.isConnected();
+  const fullAccess = hasFullAccess(tokenId);
+  const openSessions = [...sessions.values()].filter(session => fullAccess || session.token === tokenId);
+  const visiblePages = connected
+    ? (await browser!.pages()).filter(openPage =>
+        fullAccess || openSessions.some(session => session.context === openPage.browserContext()))
+    : [];
+  const pages = connected
+    ? await Promise.all(visiblePages.map(async openPage => ({
+        url: openPage.url(),
+        title: await openPage.title().catch(() => ''),
+        session: openSessions.find(session => session.context === openPage.browserContext())?.key ?? null,
+        active: openSessions.some(session => session.page === openPage)
+      })))
+    : [];
   
-  lastActivity = Date.now();
-  console.log(`⏰ Última atividade atualizada: ${new Date(lastActivity).toLocaleTimeString()}`);
+  return {
+    connected,
+    headless: puppeteerConfig.headless,
+    pages,
+    sessions: openSessions.map(session => ({
+      id: session.key,
+      pages: session.context.targets().filter(target => target.type() === 'page').length,
+      idleSeconds: Math.round((now - session.lastActivity) / 1000),
+      // Segundos até o contexto da sessão ser descartado por inatividade
+      closesInSeconds: Math.max(0, Math.round((SESSION_TIMEOUT - (now - session.lastActivity)) / 1000))
+    })),
+    lastActivity: new Date(lastActivity).toISOString(),
+    idleSeconds: Math.round(idleMs / 1000),
+    // Segundos até o fechamento por inatividade (null sem browser aberto)
+    closesInSeconds: connected ? Math.max(0, Math.round((BROWSER_TIMEOUT - idleMs) / 1000)) : null
+  };
 }
 
 /**
- * Fecha o browser após inatividade
+ * Descarta contextos de sessões ociosas e fecha o browser após inatividade
  */
 export function startBrowserCleanup() {
   setInterval(async () => {
-    if (browser && Date.now() - lastActivity > BROWSER_TIMEOUT) {
-      console.log('⏰ Fechando browser por inatividade...');
-      await browser.close();
-      browser = null;
-      page = null;
+    const now = Date.now();
+    
+    for (const session of [...sessions.values()]) {
+      if (now - session.lastActivity > SESSION_TIMEOUT) {
+        log.info(`⏰ Fechando contexto da sessão ${session.key} por inatividade...`);
+        await closeBrowserSession(session.key);
+      }
+    }
+    
+    if (browser && now - lastActivity > BROWSER_TIMEOUT) {
+      log.info('⏰ Fechando browser por inatividade...');
+      await closeBrowser();
     }
-  }, 60000); // Verifica a cada minuto
+  }, puppeteerConfig.cleanupInterval);
+}
+
+/**
+ * Fecha o browser com todas as sessões
+ */
+export async function closeBrowser(): Promise<void> {
+  const current = browser;
+  browser = null;
+  sessions.clear();
+  await current?.close();
 }
 
 // Handlers das ferramentas
-export async function handleNavigate(params: NavigateParams) {
+export async function handleNavigate(params: NavigateParams, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
   const validated = NavigateSchema.parse(params);
   
-  console.log(`🌐 Navegando para: ${validated.url}`);
+  log.info(`🌐 Navegando para: ${validated.url}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(validated, context);
   
   try {
     // Navegar com timeout mais longo e aguardar carregamento completo
-    await page.goto(validated.url, { 
+    await abortable(page.goto(validated.url, { 
       waitUntil: 'networkidle2', // Aguarda até não haver requisições por 500ms
       timeout: PAGE_TIMEOUT 
-    });
+    }), signal);
     
-    console.log(`✅ Navegação concluída para: ${validated.url}`);
+    log.info(`✅ Navegação concluída para: ${validated.url}`);
     
     // Aguardar mais tempo para JavaScript carregar completamente
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    await sleep(5000, signal);
     
-    console.log(`🎯 Página carregada e pronta para interação`);
+    log.info(`🎯 Página carregada e pronta para interação`);
     
     return successResponse(
       { url: validated.url },
       `Navegado para ${validated.url}`
     );
   } catch (error) {
-    console.error(`❌ Erro na navegação:`, error);
-    throw new MCPError(
-      ErrorCode.PAGE_LOAD_FAILED, 
-      `Falha ao navegar para ${validated.url}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`
-    );
+    log.error(`❌ Erro na navegação:`, error);
+    throw browserError(error, `Falha ao navegar para ${validated.url}`, page);
   }
 }
 
-export async function handleScreenshot(params: ScreenshotParams) {
+export async function handleScreenshot(params: ScreenshotParams, context: ToolExecutionContext = NO_OP_CONTEXT) {
   const validated = ScreenshotSchema.parse(params);
   
-  console.log(`📸 Iniciando captura de screenshot: ${validated.path}`);
+  log.info(`📸 Iniciando captura de screenshot: ${validated.path}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(validated, context);
   
   // Debug: verificar URL atual
   const currentUrl = await page.url();
-  console.log(`🌐 URL atual da página: ${currentUrl}`);
+  log.info(`🌐 URL atual da página: ${currentUrl}`);
   
   // Debug: verificar se página está carregada
   const title = await page.title();
-  console.log(`📄 Título da página: ${title}`);
+  log.info(`📄 Título da página: ${title}`);
   
   let path = validated.path;
   if (!path.match(/\.(png|jpg|jpeg)$/i)) {
     path += '.png';
   }
   
-  console.log(`💾 Salvando screenshot em: ${path}`);
+  log.info(`💾 Salvando screenshot em: ${path}`);
   
-  await page.screenshot({
-    path: path as any, // Type assertion para resolver conflito de tipos
-    fullPage: validated.fullPage
-  });
+  await captureScreenshot(page, path, validated.fullPage);
   
-  console.log(`✅ Screenshot salvo com sucesso!`);
+  log.info(`✅ Screenshot salvo com sucesso!`);
   
   return successResponse(
     { path, currentUrl, title },
@@ -208,13 +536,12 @@ export async function handleScreenshot(params: ScreenshotParams) {
   );
 }
 
-export async function handleClick(params: ClickParams) {
+export async function handleClick(params: ClickParams, context: ToolExecutionContext = NO_OP_CONTEXT) {
   const validated = ClickSchema.parse(params);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(validated, context);
   
-  await page.click(validated.selector);
+  await abortable(page.click(validated.selector), context.signal);
   
   return successResponse(
     { selector: validated.selector },
@@ -222,13 +549,12 @@ export async function handleClick(params: ClickParams) {
   );
 }
 
-export async function handleType(params: TypeParams) {
+export async function handleType(params: TypeParams, context: ToolExecutionContext = NO_OP_CONTEXT) {
   const validated = TypeSchema.parse(params);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(validated, context);
   
-  await page.type(validated.selector, validated.text);
+  await abortable(page.type(validated.selector, validated.text), context.signal);
   
   return successResponse(
     { selector: validated.selector, text: validated.text },
@@ -236,9 +562,9 @@ export async function handleType(params: TypeParams) {
   );
 }
 
-export async function handleGetContent() {
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+export async function handleGetContent(params: BrowserSessionParams = {}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const validated = GetContentSchema.parse(params);
+  const page = await ensurePage(validated, context);
   
   const content = await page.content();
   
@@ -249,16 +575,17 @@ export async function handleGetContent() {
 }
 
 // Nova função para abrir URL em nova aba
-export async function handleNewTab(params: NavigateParams) {
+export async function handleNewTab(params: NavigateParams, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
   const validated = NavigateSchema.parse(params);
   
-  await ensureBrowser();
-  if (!browser) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Browser não inicializado');
+  const page = await ensurePage(validated, context);
   
-  // Cria nova aba
-  const newPage = await browser.newPage();
+  // Cria nova aba no contexto da sessão
+  const newPage = await page.browserContext().newPage();
   await newPage.setViewport(DEFAULT_VIEWPORT);
-  await newPage.goto(validated.url, { waitUntil: 'networkidle2' });
+  await attachFixtures(newPage);
+  await abortable(newPage.goto(validated.url, { waitUntil: 'networkidle2' }), signal);
   
   // Foca na nova aba
   await newPage.bringToFront();
@@ -270,12 +597,13 @@ export async function handleNewTab(params: NavigateParams) {
 }
 
 // Função para abrir URL no navegador padrão do sistema
-export async function handleOpenBrowser(params: { url: string }) {
+export async function handleOpenBrowser(params: { url: string }, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
   const validated = OpenBrowserSchema.parse(params);
   
   try {
     // Usa o comando 'open' do macOS para abrir a URL no navegador padrão
-    await execAsync(`open "${validated.url}"`);
+    await execAsync(`open "${validated.url}"`, { signal });
     
     return successResponse(
       { url: validated.url },
@@ -290,28 +618,28 @@ export async function handleOpenBrowser(params: { url: string }) {
 }
 
 // Nova função que combina navegação + screenshot
-export async function handleNavigateAndScreenshot(params: { url: string, path: string, fullPage?: boolean }) {
-  console.log(`🚀 Iniciando navegação + screenshot para: ${params.url}`);
+export async function handleNavigateAndScreenshot(params: BrowserSessionParams & { url: string, path: string, fullPage?: boolean }, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  log.info(`🚀 Iniciando navegação + screenshot para: ${params.url}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // Navegar
-    console.log(`🌐 Navegando para: ${params.url}`);
-    await page.goto(params.url, { 
+    log.info(`🌐 Navegando para: ${params.url}`);
+    await abortable(page.goto(params.url, { 
       waitUntil: 'domcontentloaded',
       timeout: PAGE_TIMEOUT 
-    });
+    }), signal);
     
-    console.log(`✅ Navegação concluída`);
+    log.info(`✅ Navegação concluída`);
     
     // Aguardar carregamento
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await sleep(3000, signal);
     
     // Verificar se página carregou
     const title = await page.title();
-    console.log(`📄 Página carregada: ${title}`);
+    log.info(`📄 Página carregada: ${title}`);
     
     // Capturar screenshot
     let path = params.path;
@@ -319,228 +647,222 @@ export async function handleNavigateAndScreenshot(params: { url: string, path: s
       path += '.png';
     }
     
-    console.log(`📸 Capturando screenshot...`);
-    await page.screenshot({
-      path: path as any,
-      fullPage: params.fullPage || false
-    });
+    log.info(`📸 Capturando screenshot...`);
+    await captureScreenshot(page, path, params.fullPage || false);
     
-    console.log(`✅ Screenshot capturado com sucesso!`);
+    log.info(`✅ Screenshot capturado com sucesso!`);
     
     return successResponse(
       { url: params.url, path, title },
       `Navegado para ${params.url} e screenshot salvo em ${path}`
     );
   } catch (error) {
-    console.error(`❌ Erro na operação:`, error);
-    throw new MCPError(
-      ErrorCode.PAGE_LOAD_FAILED, 
-      `Falha na operação: ${error instanceof Error ? error.message : 'Erro desconhecido'}`
-    );
+    log.error(`❌ Erro na operação:`, error);
+    throw browserError(error, `Falha na operação`, page);
   }
 }
 
 // Nova função para login automático no Ekyte
-export async function handleEkyteLogin(params: { email: string, password: string, screenshotPath?: string }) {
-  console.log(`🔐 Iniciando login no Ekyte para: ${params.email}`);
+export async function handleEkyteLogin(params: EkyteCredentialParams & { screenshotPath?: string }, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`🔐 Iniciando login no Ekyte para: ${email}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // Navegar para página de login
-    console.log(`🌐 Navegando para página de login...`);
-    await page.goto('https://app.ekyte.com/login', { 
+    log.info(`🌐 Navegando para página de login...`);
+    await abortable(page.goto(EKYTE_LOGIN_URL, { 
       waitUntil: 'networkidle2',
       timeout: PAGE_TIMEOUT 
-    });
+    }), signal);
     
-    console.log(`⏳ Aguardando carregamento completo da página...`);
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    log.info(`⏳ Aguardando carregamento completo da página...`);
+    await sleep(5000, signal);
     
     // Aguardar campos de login aparecerem
-    console.log(`🔍 Procurando campos de login...`);
-    await page.waitForSelector('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', { timeout: 10000 });
+    log.info(`🔍 Procurando campos de login...`);
+    await page.waitForSelector('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', { timeout: 10000, signal });
     
     // Preencher email
-    console.log(`📧 Preenchendo email: ${params.email}`);
-    await page.type('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', params.email);
+    log.info(`📧 Preenchendo email: ${email}`);
+    await page.type('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', email);
     
     // Preencher senha
-    console.log(`🔑 Preenchendo senha...`);
-    await page.type('input[type="password"], input[name="password"], #password, [placeholder*="senha"], [placeholder*="password"]', params.password);
+    log.info(`🔑 Preenchendo senha...`);
+    await page.type('input[type="password"], input[name="password"], #password, [placeholder*="senha"], [placeholder*="password"]', password);
     
     // Screenshot antes do login (opcional)
     if (params.screenshotPath) {
-      console.log(`📸 Capturando screenshot antes do login...`);
-      await page.screenshot({ path: `${params.screenshotPath}-before-login.png`, fullPage: true });
+      log.info(`📸 Capturando screenshot antes do login...`);
+      await captureScreenshot(page, `${params.screenshotPath}-before-login.png`, true);
     }
     
     // Clicar no botão de login
-    console.log(`🚀 Clicando no botão de login...`);
+    log.info(`🚀 Clicando no botão de login...`);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
     
     // Aguardar redirecionamento
-    console.log(`⏳ Aguardando redirecionamento...`);
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    log.info(`⏳ Aguardando redirecionamento...`);
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
     
     // Aguardar carregamento completo da página após login
-    console.log(`⏳ Aguardando carregamento completo da página...`);
-    await new Promise(resolve => setTimeout(resolve, 8000)); // Aguardar 8 segundos
+    log.info(`⏳ Aguardando carregamento completo da página...`);
+    await sleep(8000, signal); // Aguardar 8 segundos
     
     // Verificar se login foi bem-sucedido
     const currentUrl = await page.url();
     const title = await page.title();
-    console.log(`✅ Login realizado! URL atual: ${currentUrl}`);
+    log.info(`✅ Login realizado! URL atual: ${currentUrl}`);
     
     // Screenshot após login
     if (params.screenshotPath) {
-      console.log(`📸 Capturando screenshot após login...`);
-      await page.screenshot({ path: `${params.screenshotPath}-after-login.png`, fullPage: true });
+      log.info(`📸 Capturando screenshot após login...`);
+      await captureScreenshot(page, `${params.screenshotPath}-after-login.png`, true);
     }
     
     return successResponse(
-      { currentUrl, title, email: params.email },
-      `Login realizado com sucesso no Ekyte para ${params.email}`
+      { currentUrl, title, email },
+      `Login realizado com sucesso no Ekyte para ${email}`
     );
   } catch (error) {
-    console.error(`❌ Erro no login:`, error);
-    throw new MCPError(
-      ErrorCode.PAGE_LOAD_FAILED, 
-      `Falha no login do Ekyte: ${error instanceof Error ? error.message : 'Erro desconhecido'}`
-    );
+    log.error(`❌ Erro no login:`, error);
+    throw browserError(error, `Falha no login do Ekyte`, page);
   }
 }
 
 // Nova função para login + navegação + screenshot no Ekyte
-export async function handleEkyteLoginAndNavigate(params: { 
-  email: string, 
-  password: string, 
+export async function handleEkyteLoginAndNavigate(params: EkyteCredentialParams & {
   targetUrl: string,
   screenshotPath: string,
   fullPage?: boolean 
-}) {
-  console.log(`🚀 Iniciando processo completo: Login + Navegação + Screenshot`);
-  console.log(`📧 Email: ${params.email}`);
-  console.log(`🎯 URL destino: ${params.targetUrl}`);
+}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`🚀 Iniciando processo completo: Login + Navegação + Screenshot`);
+  log.info(`📧 Email: ${email}`);
+  log.info(`🎯 URL destino: ${params.targetUrl}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // 1. FAZER LOGIN
-    console.log(`🔐 ETAPA 1: Fazendo login...`);
-    await page.goto('https://app.ekyte.com/login', { 
+    log.info(`🔐 ETAPA 1: Fazendo login...`);
+    await context.reportProgress(0, 3, 'Abrindo página de login');
+    await abortable(page.goto(EKYTE_LOGIN_URL, { 
       waitUntil: 'networkidle2',
       timeout: PAGE_TIMEOUT 
-    });
+    }), signal);
     
-    console.log(`⏳ Aguardando carregamento da página de login...`);
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    log.info(`⏳ Aguardando carregamento da página de login...`);
+    await sleep(5000, signal);
     
     // Aguardar e preencher campos
-    console.log(`🔍 Procurando campos de login...`);
-    await page.waitForSelector('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', { timeout: 10000 });
+    log.info(`🔍 Procurando campos de login...`);
+    await page.waitForSelector('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', { timeout: 10000, signal });
     
-    console.log(`📧 Preenchendo email...`);
-    await page.type('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', params.email);
+    log.info(`📧 Preenchendo email...`);
+    await page.type('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', email);
     
-    console.log(`🔑 Preenchendo senha...`);
-    await page.type('input[type="password"], input[name="password"], #password, [placeholder*="senha"], [placeholder*="password"]', params.password);
+    log.info(`🔑 Preenchendo senha...`);
+    await page.type('input[type="password"], input[name="password"], #password, [placeholder*="senha"], [placeholder*="password"]', password);
     
-    console.log(`🚀 Clicando em login...`);
+    log.info(`🚀 Clicando em login...`);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
     
-    console.log(`⏳ Aguardando redirecionamento após login...`);
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    log.info(`⏳ Aguardando redirecionamento após login...`);
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
+    await context.reportProgress(1, 3, 'Login realizado');
     
     // 2. NAVEGAR PARA URL DESEJADA
-    console.log(`🌐 ETAPA 2: Navegando para ${params.targetUrl}...`);
-    await page.goto(params.targetUrl, { 
+    log.info(`🌐 ETAPA 2: Navegando para ${params.targetUrl}...`);
+    await abortable(page.goto(params.targetUrl, { 
       waitUntil: 'networkidle2',
       timeout: PAGE_TIMEOUT 
-    });
+    }), signal);
     
-    console.log(`⏳ Aguardando carregamento completo...`);
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    log.info(`⏳ Aguardando carregamento completo...`);
+    await sleep(5000, signal);
     
     // 3. CAPTURAR SCREENSHOT
-    console.log(`📸 ETAPA 3: Capturando screenshot...`);
+    await context.reportProgress(2, 3, `Página carregada: ${params.targetUrl}`);
+    log.info(`📸 ETAPA 3: Capturando screenshot...`);
     const currentUrl = await page.url();
     const title = await page.title();
     
-    console.log(`📄 Página atual: ${title}`);
-    console.log(`🌐 URL atual: ${currentUrl}`);
+    log.info(`📄 Página atual: ${title}`);
+    log.info(`🌐 URL atual: ${currentUrl}`);
     
-    await page.screenshot({
-      path: params.screenshotPath as any,
-      fullPage: params.fullPage || true
-    });
+    await captureScreenshot(page, params.screenshotPath, params.fullPage || true);
+    await context.reportProgress(3, 3, 'Screenshot capturado');
     
-    console.log(`✅ PROCESSO COMPLETO! Screenshot salvo em: ${params.screenshotPath}`);
+    log.info(`✅ PROCESSO COMPLETO! Screenshot salvo em: ${params.screenshotPath}`);
     
     return successResponse(
       { 
         currentUrl, 
         title, 
-        email: params.email,
+        email,
         screenshotPath: params.screenshotPath,
         targetUrl: params.targetUrl
       },
       `Login, navegação e screenshot realizados com sucesso! URL: ${currentUrl}`
     );
   } catch (error) {
-    console.error(`❌ Erro no processo completo:`, error);
-    throw new MCPError(
-      ErrorCode.PAGE_LOAD_FAILED, 
-      `Falha no processo completo: ${error instanceof Error ? error.message : 'Erro desconhecido'}`
-    );
+    log.error(`❌ Erro no processo completo:`, error);
+    throw browserError(error, `Falha no processo completo`, page);
   }
 }
 
 // Nova habilidade: Processador de Notificações do Ekyte
-export async function handleEkyteProcessNotifications(params: { 
-  email: string, 
-  password: string,
+export async function handleEkyteProcessNotifications(params: EkyteCredentialParams & {
   screenshotPath: string,
   maxNotifications?: number
-}) {
-  console.log(`🔔 Iniciando processamento de notificações do Ekyte`);
+}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`🔔 Iniciando processamento de notificações do Ekyte`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // 1. FAZER LOGIN
-    console.log(`🔐 Fazendo login...`);
-    await page.goto('https://app.ekyte.com/login', { 
+    log.info(`🔐 Fazendo login...`);
+    await context.reportProgress(0, undefined, 'Abrindo página de login');
+    await abortable(page.goto(EKYTE_LOGIN_URL, { 
       waitUntil: 'networkidle2',
       timeout: PAGE_TIMEOUT 
-    });
+    }), signal);
     
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    await sleep(5000, signal);
     
-    await page.waitForSelector('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', { timeout: 10000 });
-    await page.type('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', params.email);
-    await page.type('input[type="password"], input[name="password"], #password, [placeholder*="senha"], [placeholder*="password"]', params.password);
+    await page.waitForSelector('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', { timeout: 10000, signal });
+    await page.type('input[type="email"], input[name="email"], #email, [placeholder*="email"], [placeholder*="Email"]', email);
+    await page.type('input[type="password"], input[name="password"], #password, [placeholder*="senha"], [placeholder*="password"]', password);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
+    await context.reportProgress(1, undefined, 'Login realizado');
     
     // 2. CAPTURAR TELA INICIAL
-    console.log(`📸 Capturando tela inicial com notificações...`);
-    await page.screenshot({ path: `${params.screenshotPath}-inicial.png` as any, fullPage: true });
+    log.info(`📸 Capturando tela inicial com notificações...`);
+    await captureScreenshot(page, `${params.screenshotPath}-inicial.png`, true);
     
     // 3. PROCESSAR NOTIFICAÇÕES
-    console.log(`🔍 Procurando notificações...`);
+    log.info(`🔍 Procurando notificações...`);
     const notifications = await page.$$('.notification-item, .task-item, [class*="notification"], [class*="task"]');
     
-    console.log(`📋 Encontradas ${notifications.length} notificações`);
+    log.info(`📋 Encontradas ${notifications.length} notificações`);
     
     const processedNotifications = [];
     const maxToProcess = params.maxNotifications || 5;
     
+    // Login, tela inicial, cada notificação e tela final
+    const totalSteps = 3 + Math.min(notifications.length, maxToProcess);
+    await context.reportProgress(2, totalSteps, `Tela inicial capturada, ${notifications.length} notificações encontradas`);
+    
     for (let i = 0; i < Math.min(notifications.length, maxToProcess); i++) {
-      console.log(`🔔 Processando notificação ${i + 1}/${Math.min(notifications.length, maxToProcess)}`);
+      log.info(`🔔 Processando notificação ${i + 1}/${Math.min(notifications.length, maxToProcess)}`);
       
       try {
         const notification = notifications[i];
@@ -548,21 +870,18 @@ export async function handleEkyteProcessNotifications(params: {
         
         // Capturar texto da notificação
         const notificationText = await notification.evaluate(el => el.textContent?.trim() || '');
-        console.log(`📝 Texto: ${notificationText.substring(0, 100)}...`);
+        log.info(`📝 Texto: ${notificationText.substring(0, 100)}...`);
         
         // Clicar na notificação
         await notification.click();
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        await sleep(2000, signal);
         
         // Capturar screenshot da notificação aberta
-        await page.screenshot({ 
-          path: `${params.screenshotPath}-notificacao-${i + 1}.png` as any, 
-          fullPage: true 
-        });
+        await captureScreenshot(page, `${params.screenshotPath}-notificacao-${i + 1}.png`, true);
         
         // Voltar para lista de notificações
-        await page.goBack();
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await abortable(page.goBack(), signal);
+        await sleep(1000, signal);
         
         processedNotifications.push({
           index: i + 1,
@@ -571,14 +890,21 @@ export async function handleEkyteProcessNotifications(params: {
         });
         
       } catch (error) {
-        console.log(`⚠️ Erro ao processar notificação ${i + 1}: ${error}`);
+        log.warn(`⚠️ Erro ao processar notificação ${i + 1}: ${error}`);
       }
+      
+      await context.reportProgress(
+        3 + i,
+        totalSteps,
+        `Notificação ${i + 1}/${Math.min(notifications.length, maxToProcess)} processada`
+      );
     }
     
     // 4. CAPTURAR TELA FINAL
-    await page.screenshot({ path: `${params.screenshotPath}-final.png` as any, fullPage: true });
+    await captureScreenshot(page, `${params.screenshotPath}-final.png`, true);
+    await context.reportProgress(totalSteps, totalSteps, 'Tela final capturada');
     
-    console.log(`✅ Processamento concluído! ${processedNotifications.length} notificações processadas`);
+    log.info(`✅ Processamento concluído! ${processedNotifications.length} notificações processadas`);
     
     return successResponse(
       { 
@@ -594,35 +920,31 @@ export async function handleEkyteProcessNotifications(params: {
     );
     
   } catch (error) {
-    console.error(`❌ Erro no processamento:`, error);
-    throw new MCPError(
-      ErrorCode.PAGE_LOAD_FAILED, 
-      `Falha no processamento de notificações: ${error instanceof Error ? error.message : 'Erro desconhecido'}`
-    );
+    log.error(`❌ Erro no processamento:`, error);
+    throw browserError(error, `Falha no processamento de notificações`, page);
   }
 }
 
 // HABILIDADE 4: Explorador de Seções do Ekyte
-export async function handleEkyteExploreSection(params: {
-  email: string,
-  password: string,
+export async function handleEkyteExploreSection(params: EkyteCredentialParams & {
   section: 'conhecimento' | 'atendimento' | 'campanhas' | 'projetos' | 'tarefas' | 'publicacoes' | 'biblioteca' | 'data-driven',
   screenshotPath: string
-}) {
-  console.log(`🗂️ Explorando seção: ${params.section}`);
+}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`🗂️ Explorando seção: ${params.section}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // Login
-    await page.goto('https://app.ekyte.com/login', { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT });
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    await page.waitForSelector('input[type="email"]', { timeout: 10000 });
-    await page.type('input[type="email"]', params.email);
-    await page.type('input[type="password"]', params.password);
+    await abortable(page.goto(EKYTE_LOGIN_URL, { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT }), signal);
+    await sleep(5000, signal);
+    await page.waitForSelector('input[type="email"]', { timeout: 10000, signal });
+    await page.type('input[type="email"]', email);
+    await page.type('input[type="password"]', password);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
     
     // Mapear seções para seletores
     const sectionSelectors: Record<string, string> = {
@@ -637,33 +959,33 @@ export async function handleEkyteExploreSection(params: {
     };
     
     // Navegar para seção
-    console.log(`🔍 Procurando seção ${params.section}...`);
+    log.info(`🔍 Procurando seção ${params.section}...`);
     const selector = sectionSelectors[params.section];
     
     try {
       if (selector) {
         await page.click(selector);
-        await new Promise(resolve => setTimeout(resolve, 3000));
+        await sleep(3000, signal);
       } else {
         throw new Error('Seletor não encontrado');
       }
     } catch {
-      console.log(`⚠️ Seletor direto falhou, tentando por texto...`);
+      log.warn(`⚠️ Seletor direto falhou, tentando por texto...`);
       await page.evaluate((section) => {
         const links = Array.from(document.querySelectorAll('a, .nav-link'));
         const link = links.find(l => l.textContent?.toLowerCase().includes(section));
         if (link) (link as HTMLElement).click();
       }, params.section);
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await sleep(3000, signal);
     }
     
     // Capturar screenshot da seção
     const currentUrl = await page.url();
     const title = await page.title();
     
-    await page.screenshot({ path: params.screenshotPath as any, fullPage: true });
+    await captureScreenshot(page, params.screenshotPath, true);
     
-    console.log(`✅ Seção ${params.section} explorada com sucesso!`);
+    log.info(`✅ Seção ${params.section} explorada com sucesso!`);
     
     return successResponse({
       section: params.section,
@@ -673,49 +995,48 @@ export async function handleEkyteExploreSection(params: {
     }, `Seção ${params.section} explorada com sucesso!`);
     
   } catch (error) {
-    console.error(`❌ Erro ao explorar seção:`, error);
-    throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, `Falha ao explorar seção ${params.section}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
+    log.error(`❌ Erro ao explorar seção:`, error);
+    throw browserError(error, `Falha ao explorar seção ${params.section}`, page);
   }
 }
 
 // HABILIDADE 5: Gerenciador de Tarefas
-export async function handleEkyteManageTask(params: {
-  email: string,
-  password: string,
+export async function handleEkyteManageTask(params: EkyteCredentialParams & {
   action: 'list' | 'open' | 'comment' | 'update_status',
   taskId?: string,
   comment?: string,
   status?: string,
   screenshotPath: string
-}) {
-  console.log(`📝 Gerenciando tarefa - Ação: ${params.action}`);
+}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`📝 Gerenciando tarefa - Ação: ${params.action}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // Login e navegar para tarefas
-    await page.goto('https://app.ekyte.com/login', { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT });
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    await page.waitForSelector('input[type="email"]', { timeout: 10000 });
-    await page.type('input[type="email"]', params.email);
-    await page.type('input[type="password"]', params.password);
+    await abortable(page.goto(EKYTE_LOGIN_URL, { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT }), signal);
+    await sleep(5000, signal);
+    await page.waitForSelector('input[type="email"]', { timeout: 10000, signal });
+    await page.type('input[type="email"]', email);
+    await page.type('input[type="password"]', password);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
     
     // Navegar para seção de tarefas
     try {
       await page.click('a[href*="tarefas"], .nav-link:contains("Tarefas")');
     } catch {
-      console.log(`🔍 Procurando seção de tarefas...`);
+      log.info(`🔍 Procurando seção de tarefas...`);
     }
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await sleep(3000, signal);
     
     let result = {};
     
     switch (params.action) {
       case 'list':
-        console.log(`📋 Listando tarefas...`);
+        log.info(`📋 Listando tarefas...`);
         const tasks = await page.$$('.task-item, [class*="task"], .notification-item');
         const taskList = [];
         
@@ -732,52 +1053,51 @@ export async function handleEkyteManageTask(params: {
         
       case 'open':
         if (params.taskId) {
-          console.log(`📂 Abrindo tarefa ${params.taskId}...`);
+          log.info(`📂 Abrindo tarefa ${params.taskId}...`);
           // Lógica para abrir tarefa específica
         }
         break;
         
       case 'comment':
         if (params.comment) {
-          console.log(`💬 Adicionando comentário: ${params.comment.substring(0, 50)}...`);
+          log.info(`💬 Adicionando comentário: ${params.comment.substring(0, 50)}...`);
           // Lógica para adicionar comentário
         }
         break;
     }
     
-    await page.screenshot({ path: params.screenshotPath as any, fullPage: true });
+    await captureScreenshot(page, params.screenshotPath, true);
     
     return successResponse(result, `Ação ${params.action} executada com sucesso!`);
     
   } catch (error) {
-    console.error(`❌ Erro no gerenciamento de tarefa:`, error);
-    throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, `Falha no gerenciamento de tarefa: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
+    log.error(`❌ Erro no gerenciamento de tarefa:`, error);
+    throw browserError(error, `Falha no gerenciamento de tarefa`, page);
   }
 }
 
 // HABILIDADE 6: Analisador de Métricas
-export async function handleEkyteAnalyzeMetrics(params: {
-  email: string,
-  password: string,
+export async function handleEkyteAnalyzeMetrics(params: EkyteCredentialParams & {
   screenshotPath: string
-}) {
-  console.log(`📊 Analisando métricas do dashboard`);
+}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`📊 Analisando métricas do dashboard`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // Login
-    await page.goto('https://app.ekyte.com/login', { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT });
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    await page.waitForSelector('input[type="email"]', { timeout: 10000 });
-    await page.type('input[type="email"]', params.email);
-    await page.type('input[type="password"]', params.password);
+    await abortable(page.goto(EKYTE_LOGIN_URL, { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT }), signal);
+    await sleep(5000, signal);
+    await page.waitForSelector('input[type="email"]', { timeout: 10000, signal });
+    await page.type('input[type="email"]', email);
+    await page.type('input[type="password"]', password);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
     
     // Extrair métricas do dashboard
-    console.log(`🔍 Extraindo métricas...`);
+    log.info(`🔍 Extraindo métricas...`);
     
     const metrics = await page.evaluate(() => {
       const extractNumber = (text: string) => {
@@ -798,9 +1118,9 @@ export async function handleEkyteAnalyzeMetrics(params: {
       };
     });
     
-    await page.screenshot({ path: params.screenshotPath as any, fullPage: true });
+    await captureScreenshot(page, params.screenshotPath, true);
     
-    console.log(`✅ Métricas extraídas:`, metrics);
+    log.info(`✅ Métricas extraídas:`, metrics);
     
     return successResponse({
       metrics,
@@ -809,35 +1129,34 @@ export async function handleEkyteAnalyzeMetrics(params: {
     }, `Métricas analisadas com sucesso!`);
     
   } catch (error) {
-    console.error(`❌ Erro na análise de métricas:`, error);
-    throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, `Falha na análise de métricas: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
+    log.error(`❌ Erro na análise de métricas:`, error);
+    throw browserError(error, `Falha na análise de métricas`, page);
   }
 }
 
 // HABILIDADE 7: Buscador Inteligente
-export async function handleEkyteSmartSearch(params: {
-  email: string,
-  password: string,
+export async function handleEkyteSmartSearch(params: EkyteCredentialParams & {
   searchTerm: string,
   screenshotPath: string
-}) {
-  console.log(`🔍 Busca inteligente por: ${params.searchTerm}`);
+}, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const { signal } = context;
+  const { email, password } = await resolveCredentials(params);
+  log.info(`🔍 Busca inteligente por: ${params.searchTerm}`);
   
-  await ensureBrowser();
-  if (!page) throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, 'Página não inicializada');
+  const page = await ensurePage(params, context);
   
   try {
     // Login
-    await page.goto('https://app.ekyte.com/login', { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT });
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    await page.waitForSelector('input[type="email"]', { timeout: 10000 });
-    await page.type('input[type="email"]', params.email);
-    await page.type('input[type="password"]', params.password);
+    await abortable(page.goto(EKYTE_LOGIN_URL, { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT }), signal);
+    await sleep(5000, signal);
+    await page.waitForSelector('input[type="email"]', { timeout: 10000, signal });
+    await page.type('input[type="email"]', email);
+    await page.type('input[type="password"]', password);
     await page.click('button[type="submit"].btn.btn-primary.btn-md');
-    await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 });
+    await abortable(page.waitForNavigation({ waitUntil: 'networkidle2', timeout: EKYTE_LOGIN_TIMEOUT }), signal);
     
     // Procurar campo de busca
-    console.log(`🔍 Procurando campo de busca...`);
+    log.info(`🔍 Procurando campo de busca...`);
     const searchSelectors = [
       'input[type="search"]',
       'input[placeholder*="buscar"]',
@@ -849,18 +1168,19 @@ export async function handleEkyteSmartSearch(params: {
     let searchFound = false;
     for (const selector of searchSelectors) {
       try {
-        await page.waitForSelector(selector, { timeout: 2000 });
+        await page.waitForSelector(selector, { timeout: 2000, signal });
         await page.type(selector, params.searchTerm);
         await page.keyboard.press('Enter');
         searchFound = true;
         break;
       } catch {
+        if (signal.aborted) throw cancelledError();
         continue;
       }
     }
     
     if (!searchFound) {
-      console.log(`⚠️ Campo de busca não encontrado, fazendo busca manual...`);
+      log.warn(`⚠️ Campo de busca não encontrado, fazendo busca manual...`);
       // Busca manual no conteúdo da página
       const results = await page.evaluate((term) => {
         const allText = document.body.innerText.toLowerCase();
@@ -870,7 +1190,7 @@ export async function handleEkyteSmartSearch(params: {
         return matches.slice(0, 5).map(match => match.trim());
       }, params.searchTerm);
       
-      await page.screenshot({ path: params.screenshotPath as any, fullPage: true });
+      await captureScreenshot(page, params.screenshotPath, true);
       
       return successResponse({
         searchTerm: params.searchTerm,
@@ -880,8 +1200,8 @@ export async function handleEkyteSmartSearch(params: {
       }, `Busca manual realizada para: ${params.searchTerm}`);
     }
     
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    await page.screenshot({ path: params.screenshotPath as any, fullPage: true });
+    await sleep(3000, signal);
+    await captureScreenshot(page, params.screenshotPath, true);
     
     return successResponse({
       searchTerm: params.searchTerm,
@@ -890,200 +1210,114 @@ export async function handleEkyteSmartSearch(params: {
     }, `Busca realizada com sucesso para: ${params.searchTerm}`);
     
   } catch (error) {
-    console.error(`❌ Erro na busca:`, error);
-    throw new MCPError(ErrorCode.PAGE_LOAD_FAILED, `Falha na busca: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
+    log.error(`❌ Erro na busca:`, error);
+    throw browserError(error, `Falha na busca`, page);
   }
 }
 
-// Metadados das ferramentas Puppeteer
-export const puppeteerTools = [
-  {
-    name: 'puppeteer_navigate',
-    description: 'Navigate to a URL',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string', description: 'URL to navigate to' }
-      },
-      required: ['url']
-    }
-  },
-  {
-    name: 'puppeteer_screenshot',
-    description: 'Take a screenshot of the current page',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        path: { type: 'string', description: 'Path to save the screenshot' },
-        fullPage: { type: 'boolean', description: 'Capture full page', default: false }
-      },
-      required: ['path']
-    }
-  },
-  {
-    name: 'puppeteer_click',
-    description: 'Click on an element',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        selector: { type: 'string', description: 'CSS selector of element to click' }
-      },
-      required: ['selector']
-    }
-  },
-  {
-    name: 'puppeteer_type',
-    description: 'Type text into an element',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        selector: { type: 'string', description: 'CSS selector of element' },
-        text: { type: 'string', description: 'Text to type' }
-      },
-      required: ['selector', 'text']
-    }
-  },
-  {
-    name: 'puppeteer_get_content',
-    description: 'Get the HTML content of the current page',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'puppeteer_new_tab',
-    description: 'Open URL in a new browser tab',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string', description: 'URL to open in new tab' }
-      },
-      required: ['url']
-    }
-  },
-  {
-    name: 'open_browser',
-    description: 'Open URL in the system default browser',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string', description: 'URL to open in default browser' }
-      },
-      required: ['url']
-    }
-  },
-  {
-    name: 'puppeteer_navigate_and_screenshot',
-    description: 'Navigate to URL and take screenshot in single operation',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string', description: 'URL to navigate to' },
-        path: { type: 'string', description: 'Path to save the screenshot' },
-        fullPage: { type: 'boolean', description: 'Capture full page', default: false }
-      },
-      required: ['url', 'path']
-    }
-  },
-  {
-    name: 'ekyte_login',
-    description: 'Login to Ekyte platform with credentials and optional screenshots',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        screenshotPath: { type: 'string', description: 'Base path for screenshots (optional)' }
-      },
-      required: ['email', 'password']
-    }
-  },
-  {
-    name: 'ekyte_login_and_navigate',
-    description: 'Login to Ekyte and navigate to specific page with screenshot',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        targetUrl: { type: 'string', description: 'URL to navigate after login' },
-        screenshotPath: { type: 'string', description: 'Path to save screenshot' },
-        fullPage: { type: 'boolean', description: 'Capture full page', default: true }
-      },
-      required: ['email', 'password', 'targetUrl', 'screenshotPath']
-    }
-  },
-  {
-    name: 'ekyte_process_notifications',
-    description: 'Process Ekyte notifications',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        screenshotPath: { type: 'string', description: 'Base path for screenshots' },
-        maxNotifications: { type: 'number', description: 'Maximum notifications to process', default: 5 }
-      },
-      required: ['email', 'password', 'screenshotPath']
-    }
-  },
-  {
-    name: 'ekyte_explore_section',
-    description: 'Explore a specific section of Ekyte',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        section: { type: 'string', description: 'Section to explore', enum: ['conhecimento', 'atendimento', 'campanhas', 'projetos', 'tarefas', 'publicacoes', 'biblioteca', 'data-driven'] },
-        screenshotPath: { type: 'string', description: 'Path to save screenshot' }
-      },
-      required: ['email', 'password', 'section', 'screenshotPath']
-    }
-  },
-  {
-    name: 'ekyte_manage_task',
-    description: 'Manage a task in Ekyte',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        action: { type: 'string', description: 'Action to perform', enum: ['list', 'open', 'comment', 'update_status'] },
-        taskId: { type: 'string', description: 'Task ID to open' },
-        comment: { type: 'string', description: 'Comment to add' },
-        status: { type: 'string', description: 'New status for the task' },
-        screenshotPath: { type: 'string', description: 'Path to save screenshot' }
-      },
-      required: ['email', 'password', 'action', 'screenshotPath']
-    }
-  },
-  {
-    name: 'ekyte_analyze_metrics',
-    description: 'Analyze Ekyte metrics',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        screenshotPath: { type: 'string', description: 'Path to save screenshot' }
-      },
-      required: ['email', 'password', 'screenshotPath']
-    }
-  },
-  {
-    name: 'ekyte_smart_search',
-    description: 'Perform a smart search in Ekyte',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: { type: 'string', description: 'Email for login' },
-        password: { type: 'string', description: 'Password for login' },
-        searchTerm: { type: 'string', description: 'Search term' },
-        screenshotPath: { type: 'string', description: 'Path to save screenshot' }
-      },
-      required: ['email', 'password', 'searchTerm', 'screenshotPath']
-    }
-  }
-];
\ No newline at end of file
+// Registro das ferramentas Puppeteer
+ToolFactory.register({
+  name: ToolName.PUPPETEER_NAVIGATE,
+  description: 'Navigate to a URL',
+  handler: browserHandler(handleNavigate),
+  metadata: { category: 'puppeteer', isReadOnly: false, isIdempotent: true }
+});
+
+ToolFactory.register({
+  name: ToolName.PUPPETEER_SCREENSHOT,
+  description: 'Take a screenshot of the current page',
+  handler: browserHandler(handleScreenshot),
+  metadata: { category: 'puppeteer', isReadOnly: false, cacheable: false }  // Grava um arquivo no caminho informado
+});
+
+ToolFactory.register({
+  name: ToolName.PUPPETEER_CLICK,
+  description: 'Click on an element',
+  handler: browserHandler(handleClick),
+  metadata: { category: 'puppeteer', isReadOnly: false }
+});
+
+ToolFactory.register({
+  name: ToolName.PUPPETEER_TYPE,
+  description: 'Type text into an element',
+  handler: browserHandler(handleType),
+  metadata: { category: 'puppeteer', isReadOnly: false }
+});
+
+ToolFactory.register({
+  name: ToolName.PUPPETEER_GET_CONTENT,
+  description: 'Get the HTML content of the current page',
+  handler: browserHandler(handleGetContent),
+  metadata: { category: 'puppeteer', isReadOnly: true }
+});
+
+ToolFactory.register({
+  name: ToolName.PUPPETEER_NEW_TAB,
+  description: 'Open URL in a new browser tab',
+  handler: browserHandler(handleNewTab),
+  metadata: { category: 'puppeteer', isReadOnly: false }
+});
+
+ToolFactory.register({
+  name: ToolName.OPEN_BROWSER,
+  description: 'Open URL in the system default browser',
+  handler: browserHandler(handleOpenBrowser),
+  metadata: { category: 'puppeteer', isReadOnly: false }
+});
+
+ToolFactory.register({
+  name: ToolName.PUPPETEER_NAVIGATE_AND_SCREENSHOT,
+  description: 'Navigate to URL and take screenshot in single operation',
+  handler: browserHandler(handleNavigateAndScreenshot),
+  metadata: { category: 'puppeteer', isReadOnly: false, isIdempotent: true }
+});
+
+// Habilidades Ekyte
+ToolFactory.register({
+  name: ToolName.EKYTE_LOGIN,                                // HABILIDADE 1: Login
+  description: 'Login to Ekyte platform with credentials and optional screenshots',
+  handler: browserHandler(handleEkyteLogin),
+  metadata: { category: 'ekyte', isReadOnly: false, requiresAuth: true, isIdempotent: true }
+});
+
+ToolFactory.register({
+  name: ToolName.EKYTE_LOGIN_AND_NAVIGATE,                   // HABILIDADE 2: Login + Navegação
+  description: 'Login to Ekyte and navigate to specific page with screenshot',
+  handler: browserHandler(handleEkyteLoginAndNavigate),
+  metadata: { category: 'ekyte', isReadOnly: false, requiresAuth: true, isIdempotent: true }
+});
+
+ToolFactory.register({
+  name: ToolName.EKYTE_PROCESS_NOTIFICATIONS,                // HABILIDADE 3: Processamento de Notificações
+  description: 'Process Ekyte notifications',
+  handler: browserHandler(handleEkyteProcessNotifications),
+  metadata: { category: 'ekyte', isReadOnly: false, requiresAuth: true }
+});
+
+ToolFactory.register({
+  name: ToolName.EKYTE_EXPLORE_SECTION,                      // HABILIDADE 4: Exploração de Seções
+  description: 'Explore a specific section of Ekyte',
+  handler: browserHandler(handleEkyteExploreSection),
+  metadata: { category: 'ekyte', isReadOnly: false, requiresAuth: true, isIdempotent: true }
+});
+
+ToolFactory.register({
+  name: ToolName.EKYTE_MANAGE_TASK,                          // HABILIDADE 5: Gerenciamento de Tarefas
+  description: 'Manage a task in Ekyte',
+  handler: browserHandler(handleEkyteManageTask),
+  metadata: { category: 'ekyte', isReadOnly: false, isDestructive: true, requiresAuth: true }
+});
+
+ToolFactory.register({
+  name: ToolName.EKYTE_ANALYZE_METRICS,                      // HABILIDADE 6: Análise de Métricas
+  description: 'Analyze Ekyte metrics',
+  handler: browserHandler(handleEkyteAnalyzeMetrics),
+  metadata: { category: 'ekyte', isReadOnly: false, requiresAuth: true, isIdempotent: true }
+});
+
+ToolFactory.register({
+  name: ToolName.EKYTE_SMART_SEARCH,                         // HABILIDADE 7: Busca Inteligente
+  description: 'Perform a smart search in Ekyte',
+  handler: browserHandler(handleEkyteSmartSearch),
+  metadata: { category: 'ekyte', isReadOnly: false, requiresAuth: true, isIdempotent: true }
+});
@@ -0,0 +1,136 @@
+/**
+ * Server Tools Module
+ *
+ * Ferramentas para inspecionar o próprio servidor MCP
+ */
+
+import { successResponse } from '../../utils.js';
+import { MCPError, ErrorCode, ToolName, ToolExecutionContext } from '../../types.js';
+import { ToolFactory } from '../../core/factory.js';
+import { NO_OP_CONTEXT } from '../../core/context.js';
+import { ServerMetricsSchema, ServerStatusSchema, ToolsEvolutionSchema } from '../../core/schemas.js';
+import { getMetricsSnapshot, getToolMetrics, renderOpenMetrics } from '../../core/metrics.js';
+import { getSkillDatabaseStats } from '../../core/resources.js';
+import { redact } from '../../core/audit.js';
+import { getToolStats } from '../../utils/tool-counter.js';
+import {
+  getToolHistory,
+  captureToolSnapshot,
+  diffSnapshots,
+  formatChangelog,
+  ToolSnapshot
+} from '../../core/tool-history.js';
+import { getBrowserStatus } from '../puppeteer/index.js';
+import { config, configSource, serverConfig, transportConfig } from '../../config/index.js';
+
+// Momento em que o processo do servidor subiu
+const startedAt = new Date(Date.now() - process.uptime() * 1000);
+
+// Handler para consultar métricas de latência, erros e gauges do browser
+export async function handleServerMetrics(params: { format?: 'json' | 'openmetrics'; tool?: string }) {
+  const validated = ServerMetricsSchema.parse(params);
+
+  if (validated.format === 'openmetrics') {
+    return successResponse(await renderOpenMetrics());
+  }
+
+  if (validated.tool) {
+    const metrics = getToolMetrics(validated.tool);
+    if (!metrics) {
+      throw new MCPError(ErrorCode.NOT_FOUND, `Nenhuma métrica registrada para ${validated.tool}`);
+    }
+    return successResponse(metrics, `Métricas de ${validated.tool}`);
+  }
+
+  const snapshot = await getMetricsSnapshot();
+  return successResponse(snapshot, `Métricas de ${Object.keys(snapshot.tools).length} ferramentas`);
+}
+
+// Handler para inspecionar o estado do servidor, do browser e dos bancos de habilidades
+export async function handleServerStatus(params: { includeConfig?: boolean }, context: ToolExecutionContext = NO_OP_CONTEXT) {
+  const validated = ServerStatusSchema.parse(params);
+
+  // Tokens restritos só veem as páginas das próprias sessões
+  const browser = await getBrowserStatus(context.authTokenId);
+  const status = {
+    server: {
+      name: serverConfig.name,
+      version: serverConfig.version,
+      transport: transportConfig.type,
+      pid: process.pid,
+      startedAt: startedAt.toISOString(),
+      uptimeSeconds: Math.round(process.uptime())
+    },
+    browser,
+    tools: getToolStats(),
+    skills: await getSkillDatabaseStats(),
+    ...(validated.includeConfig ? { config: { source: configSource, values: redact(config) } } : {})
+  };
+
+  const browserSummary = browser.connected
+    ? `browser conectado com ${browser.pages.length} páginas, ocioso há ${browser.idleSeconds}s`
+    : 'browser fechado';
+  return successResponse(status, `Servidor ativo há ${status.server.uptimeSeconds}s; ${browserSummary}`);
+}
+
+// Handler para consultar o histórico do registro de ferramentas e o diff entre snapshots
+export async function handleToolsEvolution(params: { from?: number; to?: number; limit?: number }) {
+  const validated = ToolsEvolutionSchema.parse(params);
+  const history = await getToolHistory();
+
+  const findSnapshot = (id: number): ToolSnapshot => {
+    const snapshot = history.find(item => item.id === id);
+    if (!snapshot) {
+      throw new MCPError(ErrorCode.NOT_FOUND, `Snapshot #${id} não existe no histórico`, {
+        available: history.map(item => item.id)
+      });
+    }
+    return snapshot;
+  };
+
+  // Sem "to", comparar com o registro atual; sem "from", com o snapshot anterior a "to"
+  const to = validated.to !== undefined ? findSnapshot(validated.to) : captureToolSnapshot();
+  const from = validated.from !== undefined
+    ? (validated.from === 0 ? null : findSnapshot(validated.from))
+    : [...history].reverse().find(item => to.id === 0 || item.id < to.id) ?? null;
+
+  const diff = diffSnapshots(from, to);
+  const changelog = formatChangelog(diff);
+
+  const snapshots = history.slice(-validated.limit).map(snapshot => {
+    const change = diffSnapshots(history[history.indexOf(snapshot) - 1] ?? null, snapshot);
+    return {
+      id: snapshot.id,
+      timestamp: snapshot.timestamp,
+      version: snapshot.version,
+      toolCount: Object.keys(snapshot.tools).length,
+      added: change.added.length,
+      removed: change.removed.length,
+      changed: change.changed.length
+    };
+  });
+
+  return successResponse({ snapshots, diff, changelog }, changelog);
+}
+
+// Registro das ferramentas do servidor
+ToolFactory.register({
+  name: ToolName.SERVER_METRICS,
+  description: 'Tool latency percentiles, error counts by code and browser gauges',
+  handler: handleServerMetrics,
+  metadata: { category: 'utility', isReadOnly: true, isOpenWorld: false, cacheable: false }
+});
+
+ToolFactory.register({
+  name: ToolName.SERVER_STATUS,
+  description: 'Uptime, effective config (secrets masked), browser pages and idle timer, tool counts and skill database stats',
+  handler: handleServerStatus,
+  metadata: { category: 'utility', isReadOnly: true, isOpenWorld: false, cacheable: false }
+});
+
+ToolFactory.register({
+  name: ToolName.TOOLS_EVOLUTION,
+  description: 'History of the tool registry across startups and a changelog of tools added, removed or changed between two snapshots',
+  handler: handleToolsEvolution,
+  metadata: { category: 'utility', isReadOnly: true, isOpenWorld: false, cacheable: false }
+});
@@ -1,7 +1,17 @@
 /**
  * Simple logger utility
+ *
+ * Entries go to stderr (never stdout, which carries the stdio JSON-RPC
+ * stream), to a rotating JSON lines file when config.logging.file is set,
+ * and to listeners such as connected MCP clients.
  */
 
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import * as path from 'path';
+import { format } from 'util';
+import { loggingConfig } from '../config/index.js';
+import { currentSession } from '../core/context.js';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -18,73 +28,168 @@ export interface Logger {
   forTool(toolName: string): Logger;
 }
 
-class SimpleLogger implements Logger {
-  constructor(private level: LogLevel = LogLevel.INFO) {}
+export interface LogEntry {
+  timestamp: string;
+  level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+  tool?: string;
+  session?: string; // Sessão MCP e token que geraram a entrada; ausentes nas do processo
+  token?: string;
+  message: string;
+}
 
-  debug(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.DEBUG) {
-      console.debug(`[${new Date().toISOString()}] [DEBUG]`, message, ...args);
-    }
+/**
+ * Receives every entry, whatever the configured level; listeners filter themselves
+ */
+export type LogListener = (entry: LogEntry) => void;
+
+// Nível mínimo para stderr, arquivo e buffer recente
+const configuredLevel = LogLevel[loggingConfig.level];
+
+// Buffer circular com as entradas mais recentes (exposto como recurso MCP)
+const MAX_RECENT_LOGS = 200;
+const recentLogs: LogEntry[] = [];
+
+const listeners = new Set<LogListener>();
+
+function remember(entry: LogEntry): void {
+  recentLogs.push(entry);
+
+  if (recentLogs.length > MAX_RECENT_LOGS) {
+    recentLogs.shift();
   }
+}
 
-  info(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.INFO) {
-      console.info(`[${new Date().toISOString()}] [INFO]`, message, ...args);
+/**
+ * Get the most recent log entries, oldest first
+ */
+export function getRecentLogs(limit: number = MAX_RECENT_LOGS): LogEntry[] {
+  return recentLogs.slice(-limit);
+}
+
+/**
+ * Subscribe to log entries; returns the unsubscribe function
+ */
+export function addLogListener(listener: LogListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ==================== File Sink ====================
+
+const LOG_FILE_NAME = 'bianca-tools.jsonl';
+
+let fileSize: number | null = null;
+let fileSinkFailed = false;
+
+function logFilePath(index: number = 0): string {
+  const file = path.resolve(loggingConfig.dir, LOG_FILE_NAME);
+  return index === 0 ? file : `${file}.${index}`;
+}
+
+/**
+ * Shift bianca-tools.jsonl -> .1 -> .2 ..., dropping the oldest
+ */
+function rotate(): void {
+  rmSync(logFilePath(loggingConfig.maxFiles), { force: true });
+  for (let index = loggingConfig.maxFiles - 1; index >= 0; index--) {
+    if (existsSync(logFilePath(index))) {
+      renameSync(logFilePath(index), logFilePath(index + 1));
     }
   }
+  fileSize = 0;
+}
 
-  warn(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.WARN) {
-      console.warn(`[${new Date().toISOString()}] [WARN]`, message, ...args);
+function writeToFile(entry: LogEntry): void {
+  if (!loggingConfig.file || fileSinkFailed) return;
+
+  try {
+    if (fileSize === null) {
+      mkdirSync(loggingConfig.dir, { recursive: true });
+      fileSize = existsSync(logFilePath()) ? statSync(logFilePath()).size : 0;
+    }
+
+    const line = JSON.stringify(entry) + '\n';
+    if (fileSize > 0 && fileSize + Buffer.byteLength(line) > loggingConfig.maxFileSize) {
+      rotate();
     }
+
+    appendFileSync(logFilePath(), line, 'utf-8');
+    fileSize += Buffer.byteLength(line);
+  } catch (error) {
+    // Avisar uma única vez e seguir apenas com stderr
+    fileSinkFailed = true;
+    process.stderr.write(`[logger] Falha ao gravar ${logFilePath()}: ${error}\n`);
   }
+}
 
-  error(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.ERROR) {
-      console.error(`[${new Date().toISOString()}] [ERROR]`, message, ...args);
+// ==================== Logger ====================
+
+function write(level: LogEntry['level'], tool: string | undefined, message: string, args: any[]): void {
+  const scope = currentSession();
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    ...(tool ? { tool } : {}),
+    ...(scope ? { session: scope.sessionId } : {}),
+    ...(scope?.tokenId ? { token: scope.tokenId } : {}),
+    message: args.length > 0 ? format(message, ...args) : message
+  };
+
+  if (LogLevel[level] >= configuredLevel) {
+    remember(entry);
+
+    if (loggingConfig.console) {
+      const prefix = `[${entry.timestamp}] [${level}]${tool ? ` [${tool}]` : ''}`;
+      process.stderr.write(`${prefix} ${entry.message}\n`);
     }
+
+    writeToFile(entry);
   }
 
-  forTool(toolName: string): Logger {
-    return new ToolLogger(toolName, this.level);
+  for (const listener of listeners) {
+    try {
+      listener(entry);
+    } catch {
+      // Um listener com falha não pode derrubar quem está logando
+    }
   }
 }
 
-class ToolLogger implements Logger {
-  constructor(private toolName: string, private level: LogLevel = LogLevel.INFO) {}
+class SimpleLogger implements Logger {
+  constructor(private toolName?: string) {}
 
   debug(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.DEBUG) {
-      console.debug(`[${new Date().toISOString()}] [DEBUG] [${this.toolName}]`, message, ...args);
-    }
+    write('DEBUG', this.toolName, message, args);
   }
 
   info(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.INFO) {
-      console.info(`[${new Date().toISOString()}] [INFO] [${this.toolName}]`, message, ...args);
-    }
+    write('INFO', this.toolName, message, args);
   }
 
   warn(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.WARN) {
-      console.warn(`[${new Date().toISOString()}] [WARN] [${this.toolName}]`, message, ...args);
-    }
+    write('WARN', this.toolName, message, args);
   }
 
   error(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.ERROR) {
-      console.error(`[${new Date().toISOString()}] [ERROR] [${this.toolName}]`, message, ...args);
-    }
+    write('ERROR', this.toolName, message, args);
   }
 
   forTool(toolName: string): Logger {
-    return new ToolLogger(`${this.toolName}:${toolName}`, this.level);
+    return new SimpleLogger(this.toolName ? `${this.toolName}:${toolName}` : toolName);
   }
 }
 
 export const logger = new SimpleLogger();
 
+/**
+ * Route console.log/info/debug/warn through the logger, so stray calls
+ * cannot write to stdout; console.error already goes to stderr
+ */
 export function replaceConsoleWithLogger(): void {
-  // Não substituir console para evitar loops infinitos
-  // O logger já usa console diretamente
-} 
\ No newline at end of file
+  console.log = (...args: any[]) => logger.info(format(...args));
+  console.info = (...args: any[]) => logger.info(format(...args));
+  console.debug = (...args: any[]) => logger.debug(format(...args));
+  console.warn = (...args: any[]) => logger.warn(format(...args));
+}
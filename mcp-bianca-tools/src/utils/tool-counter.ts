@@ -1,4 +1,10 @@
-import { toolHandlers } from '../tools/index.js';
+import { ToolFactory } from '../tools/index.js';
+import {
+  getLoadedToolHistory,
+  captureToolSnapshot,
+  diffSnapshots,
+  formatChangelog
+} from '../core/tool-history.js';
 
 export interface ToolStats {
   total: number;
@@ -12,33 +18,42 @@ export interface ToolStats {
     initial_tools: number;
     ekyte_skills_added: number;
     growth_percentage: number;
+    snapshots: number;        // Snapshots gravados no histórico
+    tracked_since?: string;   // Data do primeiro snapshot
   };
 }
 
 export function getToolStats(): ToolStats {
-  const tools = Object.keys(toolHandlers);
-  
-  const puppeteerBasic = tools.filter(tool => 
+  const tools: string[] = ToolFactory.getNames();
+
+  const puppeteerBasic = tools.filter(tool =>
     tool.startsWith('puppeteer_') || tool === 'open_browser'
   ).length;
-  
-  const ekyteSkills = tools.filter(tool => 
+
+  const ekyteSkills = tools.filter(tool =>
     tool.startsWith('ekyte_')
   ).length;
-  
-  const browser = tools.filter(tool => 
+
+  const browser = tools.filter(tool =>
     tool.startsWith('browser_')
   ).length;
-  
-  const agents = tools.filter(tool => 
+
+  const agents = tools.filter(tool =>
     tool.startsWith('agents_')
   ).length;
-  
-  const initialTools = 12; // Ferramentas iniciais do MCP
+
+  // Linha de base: primeiro snapshot do histórico (ou o registro atual, sem histórico)
+  const history = getLoadedToolHistory();
+  const first = history[0];
+  const firstTools = first ? Object.keys(first.tools) : tools;
+
+  const initialTools = firstTools.length;
   const currentTotal = tools.length;
-  const skillsAdded = ekyteSkills;
-  const growthPercentage = Math.round(((currentTotal - initialTools) / initialTools) * 100);
-  
+  const skillsAdded = ekyteSkills - firstTools.filter(tool => tool.startsWith('ekyte_')).length;
+  const growthPercentage = initialTools > 0
+    ? Math.round(((currentTotal - initialTools) / initialTools) * 100)
+    : 0;
+
   return {
     total: currentTotal,
     categories: {
@@ -50,14 +65,20 @@ export function getToolStats(): ToolStats {
     evolution: {
       initial_tools: initialTools,
       ekyte_skills_added: skillsAdded,
-      growth_percentage: growthPercentage
+      growth_percentage: growthPercentage,
+      snapshots: history.length,
+      ...(first ? { tracked_since: first.timestamp } : {})
     }
   };
 }
 
 export function displayToolStats(): string {
   const stats = getToolStats();
-  
+
+  // Mudanças desde o último snapshot gravado
+  const history = getLoadedToolHistory();
+  const changelog = formatChangelog(diffSnapshots(history[history.length - 1] ?? null, captureToolSnapshot()));
+
   return `
 🔧 **BIANCA TOOLS - ESTATÍSTICAS EVOLUTIVAS**
 
@@ -70,19 +91,16 @@ export function displayToolStats(): string {
    🤖 Agents: ${stats.categories.agents} ferramentas
 
 📈 **EVOLUÇÃO:**
-   ⚡ Ferramentas Iniciais: ${stats.evolution.initial_tools}
+   ⚡ Ferramentas Iniciais: ${stats.evolution.initial_tools}${stats.evolution.tracked_since ? ` (desde ${stats.evolution.tracked_since.slice(0, 10)})` : ''}
    🚀 Habilidades Ekyte Adicionadas: ${stats.evolution.ekyte_skills_added}
-   📊 Crescimento: +${stats.evolution.growth_percentage}%
-
-🎯 **PRÓXIMAS HABILIDADES PLANEJADAS:**
-   • HABILIDADE 8: Gerador de Relatórios
-   • HABILIDADE 9: Monitor de Performance
-   • HABILIDADE 10: Integração com APIs
-   • HABILIDADE 11: Backup de Dados
-   • HABILIDADE 12: Análise Preditiva
+   📊 Crescimento: ${stats.evolution.growth_percentage >= 0 ? '+' : ''}${stats.evolution.growth_percentage}%
+   🗂️ Snapshots no histórico: ${stats.evolution.snapshots}
+
+📝 **MUDANÇAS DESDE O ÚLTIMO SNAPSHOT:**
+${changelog}
 `;
 }
 
 export function logToolEvolution(): void {
   console.log(displayToolStats());
-} 
\ No newline at end of file
+}